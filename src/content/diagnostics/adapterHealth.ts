@@ -0,0 +1,234 @@
+/**
+ * 适配器健康诊断
+ * 站点改版后内置适配器往往静默返回空数组，时间线就再也不出现。
+ * 这里在「适配器命中 URL、却扫描不到提问、页面又明显有对话内容」时
+ * 生成诊断报告并在页面上给出提示
+ */
+
+import type { SiteAdapter } from '../siteAdapters/index';
+import { getTranslation, type Language } from '../../utils/i18n';
+import { hashString } from '../../utils/hash';
+import {
+  formatDiagnosticReport,
+  removeDiagnosticReport,
+  saveDiagnosticReport,
+  toUrlPattern,
+  type AdapterDiagnosticReport,
+  type DomSignature,
+  type SelectorHit
+} from '../../utils/adapterDiagnostics';
+
+const WARNING_ID = 'llm-nav-adapter-health-warning';
+
+/** 判定「页面有对话内容」的最小文本长度 */
+const MIN_TEXT_LENGTH = 400;
+/** 判定「页面有对话内容」的最少段落类元素数量 */
+const MIN_TEXT_BLOCKS = 3;
+
+const TOP_ENTRY_LIMIT = 12;
+
+/**
+ * 粗略判断页面是否已渲染出对话内容（而不是空白的新对话页或加载中）
+ */
+export function hasChatContent(root: HTMLElement): boolean {
+  const textLength = (root.textContent || '').replace(/\s+/g, ' ').trim().length;
+  if (textLength < MIN_TEXT_LENGTH) return false;
+
+  return root.querySelectorAll('p, li, pre, blockquote').length >= MIN_TEXT_BLOCKS;
+}
+
+function collectSelectorHits(adapter: SiteAdapter, root: HTMLElement): SelectorHit[] {
+  return (adapter.diagnosticSelectors || []).map((selector) => {
+    try {
+      return { selector, count: root.querySelectorAll(selector).length };
+    } catch {
+      return { selector, count: -1 };
+    }
+  });
+}
+
+function topEntries(counts: Map<string, number>): Array<[string, number]> {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_ENTRY_LIMIT);
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * 提取 DOM 结构签名（只记录标签、属性名、类名等结构信息，不包含对话文本）
+ */
+export function collectDomSignature(root: HTMLElement): DomSignature {
+  const elements = Array.from(root.querySelectorAll('*'));
+  const dataAttributes = new Map<string, number>();
+  const roles = new Map<string, number>();
+  const classes = new Map<string, number>();
+  const customElements = new Set<string>();
+
+  elements.forEach((el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag.includes('-')) customElements.add(tag);
+
+    for (let i = 0; i < el.attributes.length; i++) {
+      const name = el.attributes[i].name;
+      if (name.startsWith('data-') && !name.startsWith('data-llm-nav')) {
+        increment(dataAttributes, name);
+      }
+    }
+
+    const role = el.getAttribute('role');
+    if (role) increment(roles, role);
+
+    el.classList.forEach((name) => increment(classes, name));
+  });
+
+  const landmarks: Record<string, number> = {};
+  ['main', 'article', 'section', 'form', 'textarea', '[contenteditable="true"]'].forEach((selector) => {
+    landmarks[selector] = root.querySelectorAll(selector).length;
+  });
+
+  const signature = {
+    elementCount: elements.length,
+    textLength: (root.textContent || '').length,
+    landmarks,
+    topDataAttributes: topEntries(dataAttributes),
+    topRoles: topEntries(roles),
+    customElements: Array.from(customElements).sort().slice(0, TOP_ENTRY_LIMIT),
+    topClasses: topEntries(classes)
+  };
+
+  const hash = hashString(JSON.stringify([
+    signature.landmarks,
+    signature.topDataAttributes.map(([name]) => name),
+    signature.topRoles.map(([name]) => name),
+    signature.customElements
+  ]));
+
+  return { ...signature, hash };
+}
+
+export function buildDiagnosticReport(adapter: SiteAdapter, root: HTMLElement): AdapterDiagnosticReport {
+  return {
+    adapterName: adapter.name,
+    hostname: window.location.hostname,
+    urlPattern: toUrlPattern(window.location),
+    timestamp: Date.now(),
+    extensionVersion: chrome.runtime.getManifest().version,
+    userAgent: navigator.userAgent,
+    promptCount: adapter.getPromptAnswerPairs(root).length,
+    selectorHits: collectSelectorHits(adapter, root),
+    domSignature: collectDomSignature(root)
+  };
+}
+
+/**
+ * 移除页面上的诊断提示
+ */
+export function dismissAdapterHealthWarning(): void {
+  document.getElementById(WARNING_ID)?.remove();
+}
+
+/** 本页已确认不再有遗留报告的域名，健康的页面刷新时不必反复读写存储 */
+const clearedHostnames = new Set<string>();
+
+/**
+ * 适配器重新扫描到内容后调用：移除提示与该域名的旧报告（只在存有报告时写入存储）
+ */
+export function markAdapterHealthy(): void {
+  dismissAdapterHealthWarning();
+
+  const hostname = window.location.hostname;
+  if (clearedHostnames.has(hostname)) return;
+  clearedHostnames.add(hostname);
+  removeDiagnosticReport(hostname).catch(() => {
+    clearedHostnames.delete(hostname);
+  });
+}
+
+function showWarning(report: AdapterDiagnosticReport, language: Language): void {
+  dismissAdapterHealthWarning();
+  const t = (key: string): string => getTranslation(key, language);
+
+  const warning = document.createElement('div');
+  warning.id = WARNING_ID;
+  Object.assign(warning.style, {
+    position: 'fixed',
+    right: '20px',
+    bottom: '20px',
+    maxWidth: '300px',
+    padding: '12px 14px',
+    borderRadius: '10px',
+    borderLeft: '4px solid #ff9800',
+    backgroundColor: '#ffffff',
+    color: '#333333',
+    boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    fontSize: '12px',
+    lineHeight: '1.5',
+    zIndex: '2147483646'
+  });
+
+  const message = document.createElement('div');
+  message.textContent = t('diagnostics.warning').replace('{site}', report.adapterName);
+  warning.appendChild(message);
+
+  const actions = document.createElement('div');
+  Object.assign(actions.style, { display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '8px' });
+
+  const createButton = (label: string, primary: boolean): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    Object.assign(button.style, {
+      padding: '4px 10px',
+      borderRadius: '6px',
+      border: primary ? 'none' : '1px solid #ddd',
+      backgroundColor: primary ? '#ff9800' : '#ffffff',
+      color: primary ? '#ffffff' : '#333333',
+      cursor: 'pointer',
+      fontSize: '12px'
+    });
+    return button;
+  };
+
+  const copyBtn = createButton(t('diagnostics.copy'), true);
+  copyBtn.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticReport(report));
+      copyBtn.textContent = t('diagnostics.copied');
+    } catch {
+      copyBtn.textContent = t('diagnostics.copyFailed');
+    }
+  });
+
+  const closeBtn = createButton(t('diagnostics.dismiss'), false);
+  closeBtn.addEventListener('click', () => dismissAdapterHealthWarning());
+
+  actions.appendChild(closeBtn);
+  actions.appendChild(copyBtn);
+  warning.appendChild(actions);
+  document.body.appendChild(warning);
+}
+
+/**
+ * 检查适配器健康状态
+ * 仅在确实扫描不到提问且页面有对话内容时记录报告并提示
+ * @returns 是否判定为适配器失效
+ */
+export async function runAdapterHealthCheck(
+  adapter: SiteAdapter,
+  root: HTMLElement,
+  language: Language
+): Promise<boolean> {
+  if (!hasChatContent(root)) return false;
+
+  const report = buildDiagnosticReport(adapter, root);
+  if (report.promptCount > 0) return false;
+
+  await saveDiagnosticReport(report);
+  clearedHostnames.delete(report.hostname);
+  showWarning(report, language);
+  return true;
+}
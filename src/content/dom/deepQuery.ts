@@ -0,0 +1,229 @@
+/**
+ * 跨 Shadow DOM 与同源 iframe 的 DOM 查询
+ * 部分基于 Web Components 的聊天前端把消息渲染在 open shadow root 或同源 iframe 中，
+ * 普通的 querySelectorAll 无法穿透这些边界。适配器可以按需改用这里的查询函数
+ */
+
+/** 可以作为查询起点的节点 */
+export type QueryRoot = Document | Element | ShadowRoot;
+
+/**
+ * 获取同源 iframe 的文档，跨域时返回 null
+ */
+function getFrameDocument(element: Element): Document | null {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') return null;
+  try {
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 元素内嵌的子树根：open shadow root 或同源 iframe 的文档
+ */
+function getNestedRoots(element: Element): Array<ShadowRoot | Document> {
+  const roots: Array<ShadowRoot | Document> = [];
+  if (element.shadowRoot) roots.push(element.shadowRoot);
+  const frameDocument = getFrameDocument(element);
+  if (frameDocument) roots.push(frameDocument);
+  return roots;
+}
+
+/**
+ * 判断节点是否为 HTML 元素
+ * iframe 中的元素来自另一个 window，不能用 instanceof HTMLElement 判断
+ */
+export function isHTMLElementNode(node: unknown): node is HTMLElement {
+  return !!node &&
+         (node as Node).nodeType === Node.ELEMENT_NODE &&
+         typeof (node as HTMLElement).style === 'object';
+}
+
+/**
+ * 遍历起点之下的全部元素，收集 open shadow root 和同源 iframe 文档
+ */
+function collectDeepRoots(root: QueryRoot): QueryRoot[] {
+  const roots: QueryRoot[] = [root];
+
+  for (let i = 0; i < roots.length; i++) {
+    const current = roots[i];
+    const start = current.nodeType === Node.DOCUMENT_NODE
+      ? (current as Document).documentElement
+      : current;
+    if (!start) continue;
+
+    const ownerDocument = start.ownerDocument || (current as Document);
+    const walker = ownerDocument.createTreeWalker(start, NodeFilter.SHOW_ELEMENT);
+    let node: Node | null = walker.currentNode;
+    while (node) {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        roots.push(...getNestedRoots(node as Element));
+      }
+      node = walker.nextNode();
+    }
+  }
+
+  return roots;
+}
+
+interface DeepRootsCacheEntry {
+  roots: QueryRoot[];
+  observer: MutationObserver;
+}
+
+/**
+ * 按起点缓存的子树根
+ * 每次查询都完整遍历文档代价很高（适配器一次刷新会查询多次），
+ * 因此缓存结果，只在增删的节点中包含 shadow 宿主或 iframe 时失效
+ */
+const deepRootsCache = new WeakMap<QueryRoot, DeepRootsCacheEntry>();
+
+/**
+ * 缓存的子树根是否仍然有效：iframe 导航后旧文档失去 window，宿主移除后 shadow root 也不再可见
+ */
+function isRootAlive(root: QueryRoot): boolean {
+  if (root.nodeType === Node.DOCUMENT_NODE) return !!(root as Document).defaultView;
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return (root as ShadowRoot).host.isConnected;
+  return true;
+}
+
+/**
+ * 节点本身或其后代是否带有 shadow root 或是 iframe
+ * 流式输出等普通的节点增删不会改变子树根，无需让缓存失效
+ */
+function containsNestedRoot(node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) return false;
+  const element = node as Element;
+  if (element.shadowRoot || element.tagName === 'IFRAME' || element.tagName === 'FRAME') return true;
+  if (element.querySelector('iframe, frame')) return true;
+
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_ELEMENT);
+  for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+    if ((current as Element).shadowRoot) return true;
+  }
+  return false;
+}
+
+/**
+ * 本批变化是否可能增删了子树根
+ */
+function affectsDeepRoots(mutations: MutationRecord[]): boolean {
+  return mutations.some(mutation =>
+    Array.from(mutation.addedNodes).some(containsNestedRoot) ||
+    Array.from(mutation.removedNodes).some(containsNestedRoot)
+  );
+}
+
+/**
+ * 使某个起点缓存的子树根失效
+ */
+export function invalidateDeepRoots(root: QueryRoot): void {
+  const entry = deepRootsCache.get(root);
+  if (!entry) return;
+  entry.observer.disconnect();
+  deepRootsCache.delete(root);
+}
+
+/**
+ * 收集起点及其下所有 open shadow root 和同源 iframe 文档
+ * 返回的第一个元素总是起点本身；结果会被缓存，直到有 shadow 宿主或 iframe 被加入或移除
+ */
+export function getDeepRoots(root: QueryRoot): QueryRoot[] {
+  const cached = deepRootsCache.get(root);
+  if (cached && cached.roots.every(isRootAlive)) return cached.roots;
+  invalidateDeepRoots(root);
+
+  const roots = collectDeepRoots(root);
+  const observer = new MutationObserver((mutations) => {
+    if (affectsDeepRoots(mutations)) invalidateDeepRoots(root);
+  });
+  roots.forEach(current => observer.observe(current, { childList: true, subtree: true }));
+  deepRootsCache.set(root, { roots, observer });
+  return roots;
+}
+
+/**
+ * 按组合树顺序（shadow root 内容排在宿主的子元素之前）收集起点之下匹配的元素
+ * 与 querySelectorAll 一致，不包含起点本身
+ */
+function collectInTreeOrder(root: QueryRoot, selector: string, results: HTMLElement[]): void {
+  if (root.nodeType === Node.ELEMENT_NODE) {
+    getNestedRoots(root as Element).forEach(nested => collectInTreeOrder(nested, selector, results));
+  }
+
+  for (let child = root.firstElementChild; child; child = child.nextElementSibling) {
+    if (child.matches(selector) && isHTMLElementNode(child)) {
+      results.push(child);
+    }
+    collectInTreeOrder(child, selector, results);
+  }
+}
+
+/**
+ * 跨边界查询所有匹配的元素，按文档顺序返回
+ * 没有 shadow root / iframe 时直接使用原生 querySelectorAll
+ * @throws 选择器无效时抛出 SyntaxError（与 querySelectorAll 一致）
+ */
+export function deepQuerySelectorAll(root: QueryRoot, selector: string): HTMLElement[] {
+  if (getDeepRoots(root).length === 1) {
+    return Array.from(root.querySelectorAll(selector)).filter(isHTMLElementNode);
+  }
+
+  // 先校验选择器，保持与 querySelectorAll 相同的报错行为
+  root.querySelector(selector);
+
+  const results: HTMLElement[] = [];
+  collectInTreeOrder(root, selector, results);
+  return results;
+}
+
+/**
+ * 跨边界查询第一个匹配的元素（外层文档中的匹配优先）
+ */
+export function deepQuerySelector(root: QueryRoot, selector: string): HTMLElement | null {
+  const roots = getDeepRoots(root);
+  for (const current of roots) {
+    const match = current.querySelector(selector);
+    if (isHTMLElementNode(match)) return match;
+  }
+  return null;
+}
+
+/**
+ * 获取元素相对于顶层窗口视口的位置
+ * 同源 iframe 中的 getBoundingClientRect 以 iframe 视口为准，需要逐层加上 iframe 的偏移
+ */
+export function getViewportRect(element: Element): { top: number; bottom: number; left: number } {
+  const rect = element.getBoundingClientRect();
+  let top = rect.top;
+  let bottom = rect.bottom;
+  let left = rect.left;
+
+  let view = element.ownerDocument.defaultView;
+  while (view && view !== window) {
+    let frame: Element | null = null;
+    try {
+      frame = view.frameElement;
+    } catch {
+      frame = null;
+    }
+    if (!frame) break;
+
+    const frameRect = frame.getBoundingClientRect();
+    top += frameRect.top + frame.clientTop;
+    bottom += frameRect.top + frame.clientTop;
+    left += frameRect.left + frame.clientLeft;
+    view = frame.ownerDocument.defaultView;
+  }
+
+  return { top, bottom, left };
+}
+
+/**
+ * 计算元素相对于顶层文档顶部的偏移量（用于排序和时间线位置）
+ */
+export function getDeepTopOffset(element: Element): number {
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return getViewportRect(element).top + scrollTop;
+}
@@ -0,0 +1,46 @@
+/**
+ * 站点的滚动容器
+ * 多数聊天站点的对话不在文档上滚动，而是在 <main> 内部的某个 div 中滚动：
+ * 此时 window.scrollY 始终为 0，视口中线的判定和跳转后的位置微调都需要以该容器为准
+ */
+
+const SCROLLABLE_OVERFLOW = /(auto|scroll|overlay)/;
+
+/**
+ * 容器是否就是文档本身的滚动（没有内部滚动容器）
+ */
+export function isDocumentScroller(container: HTMLElement | null): boolean {
+  if (!container) return true;
+  const doc = container.ownerDocument;
+  return container === doc.documentElement || container === doc.body;
+}
+
+/**
+ * 从元素向上查找最近的纵向滚动容器
+ * @returns 找不到时返回 document.documentElement（表示在文档上滚动）
+ */
+export function findScrollContainer(element: Element | null): HTMLElement {
+  let current = element?.parentElement || null;
+
+  while (current && !isDocumentScroller(current)) {
+    const overflowY = window.getComputedStyle(current).overflowY;
+    if (SCROLLABLE_OVERFLOW.test(overflowY) && current.scrollHeight > current.clientHeight + 1) {
+      return current;
+    }
+    current = current.parentElement;
+  }
+  return document.documentElement;
+}
+
+/**
+ * 滚动容器的可见区域（顶层视口坐标）
+ */
+export function getScrollViewport(container: HTMLElement | null): { top: number; height: number } {
+  if (isDocumentScroller(container)) {
+    return { top: 0, height: window.innerHeight };
+  }
+
+  const rect = container!.getBoundingClientRect();
+  const top = Math.max(rect.top, 0);
+  return { top, height: Math.max(Math.min(rect.bottom, window.innerHeight) - top, 0) };
+}
@@ -0,0 +1,73 @@
+/**
+ * 页面内的导航事件总线
+ * 索引管理器、时间线和各存储在状态变化时发布事件，任何模块都可以订阅，
+ * 新增面板（例如搜索、大纲）时无需在 content/index.ts 中层层传递回调
+ */
+import type { GenerationEvent, IndexChangeSet, PromptAnswerItem } from './navigation/answerIndexManager';
+import type { ThemeMode, TimelineTheme } from './navigation/themes';
+import type { FavoriteConversation } from './store/favoriteStore';
+
+export interface NavEventMap {
+  /** 条目增删改（索引管理器刷新后） */
+  itemsChanged: { items: PromptAnswerItem[]; changes: IndexChangeSet };
+  /** 当前阅读的条目变化 */
+  indexChanged: { index: number; item: PromptAnswerItem | null };
+  /** 回答开始/结束生成 */
+  generationChanged: GenerationEvent;
+  /** 点击了时间线节点（或收藏、"新回答已生成"提示中指向当前页面的条目） */
+  nodeClicked: { index: number };
+  /** 点击了时间线上的章节子节点 */
+  sectionClicked: { itemIndex: number; sectionIndex: number };
+  /** 某个对话的标记节点被保存 */
+  pinChanged: { conversationId: string; pinnedIds: string[] };
+  /** 收藏列表被保存 */
+  favoriteChanged: { favorites: FavoriteConversation[] };
+  /** 时间线应用了新的主题 */
+  themeChanged: { mode: ThemeMode; theme: TimelineTheme };
+}
+
+export type NavEventName = keyof NavEventMap;
+
+export type NavEventListener<K extends NavEventName> = (payload: NavEventMap[K]) => void;
+
+export class NavEventBus {
+  private listeners: { [K in NavEventName]?: Set<NavEventListener<K>> } = {};
+
+  /**
+   * 订阅事件
+   * @returns 取消订阅的函数
+   */
+  on<K extends NavEventName>(event: K, listener: NavEventListener<K>): () => void {
+    const listeners = (this.listeners[event] || new Set()) as Set<NavEventListener<K>>;
+    listeners.add(listener);
+    (this.listeners as Record<K, Set<NavEventListener<K>>>)[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 取消订阅
+   */
+  off<K extends NavEventName>(event: K, listener: NavEventListener<K>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * 发布事件，单个订阅者出错不影响其他订阅者
+   */
+  emit<K extends NavEventName>(event: K, payload: NavEventMap[K]): void {
+    const listeners = this.listeners[event] as Set<NavEventListener<K>> | undefined;
+    if (!listeners) return;
+
+    // 复制一份，允许订阅者在回调中取消订阅
+    Array.from(listeners).forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (e) {
+        // console.error('[LLM-Nav] Event listener failed:', event, e);
+      }
+    });
+  }
+}
+
+/** 内容脚本共用的事件总线 */
+export const navEvents = new NavEventBus();
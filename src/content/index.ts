@@ -1,9 +1,28 @@
 // Content Script
-import { getActiveAdapter } from './siteAdapters/index';
-import { AnswerIndexManager } from './navigation/answerIndexManager';
+import {
+  getActiveAdapter,
+  getDefaultConversationId,
+  getShareUrl,
+  isBuiltInAdapter,
+  isGenericCustomAdapter,
+  NEW_CHAT_CONVERSATION_ID,
+  resolveConversationId,
+  type SiteAdapter
+} from './siteAdapters/index';
+import { AnswerIndexManager, type GenerationEvent } from './navigation/answerIndexManager';
 import { RightSideTimelinejump } from './navigation/rightSideTimelineNavigator';
 import { scrollToAndHighlight } from './navigation/scrollAndHighlight';
+import { moveConversationData, removeConversationData } from './store/conversationMigration';
 import type { Language } from '../utils/i18n';
+import { CUSTOM_SITE_RULES_KEY, normalizeRulesMap } from '../utils/customSiteRules';
+import { normalizeSelectorBundle, SELECTOR_BUNDLE_OVERRIDE_KEY, setSelectorBundleOverride } from '../utils/selectorBundle';
+import { normalizeSiteOverridesMap, SITE_OVERRIDES_KEY } from '../utils/siteOverrides';
+import { startRuleElementPicker } from './picker/ruleElementPicker';
+import { NAV_STEP_MODE_KEY, SECTION_NAVIGATION_KEY } from '../utils/sectionNavigation';
+import { dismissAdapterHealthWarning, markAdapterHealthy, runAdapterHealthCheck } from './diagnostics/adapterHealth';
+import { deepQuerySelector, getDeepRoots, getViewportRect, type QueryRoot } from './dom/deepQuery';
+import { getScrollViewport } from './dom/scrollContainer';
+import { navEvents } from './eventBus';
 
 let indexManager: AnswerIndexManager | null = null;
 let timelinejump: RightSideTimelinejump | null = null;
@@ -12,18 +31,32 @@ let initPromise: Promise<void> | null = null; // 存储当前初始化Promise
 let isListLocked = false; // 标记列表是否已锁定（固定总数）
 let isManualScrolling = false; // 标记是否正在进行点击导航滚动
 let contentMutationObserver: MutationObserver | null = null; // 监听页面变化的观察器引用
+let observedDeepRoots: QueryRoot[] = []; // 已单独监听的 shadow root / 同源 iframe 文档
 let currentInitId = 0; // 初始化版本控制，防止竞态条件
+let provisionalConversationId: string | null = null; // 当前新对话的临时 ID（每个新对话独立）
+let pendingProvisionalCarry: { fromId: string; itemIds: string[] } | null = null; // 等待迁移到正式 ID 的临时对话
+let activeAdapter: SiteAdapter | null = null; // 本次初始化解析出的适配器（URL 变化后重新初始化时更新）
 
 // Settings Cache
 let cachedSettings: { [key: string]: any } | null = null;
 
 async function getSettings() {
   if (cachedSettings) return cachedSettings;
-  cachedSettings = await chrome.storage.sync.get([
-    'custom_urls', 
-    'ui_theme',
-    'language'
+  const [syncSettings, localSettings] = await Promise.all([
+    chrome.storage.sync.get([
+      'custom_urls', 
+      CUSTOM_SITE_RULES_KEY,
+      SITE_OVERRIDES_KEY,
+      'ui_theme',
+      'language',
+      SECTION_NAVIGATION_KEY,
+      NAV_STEP_MODE_KEY
+    ]),
+    chrome.storage.local.get(SELECTOR_BUNDLE_OVERRIDE_KEY)
   ]);
+  // 选择器覆盖规则包必须在适配器扫描之前生效
+  setSelectorBundleOverride(normalizeSelectorBundle(localSettings[SELECTOR_BUNDLE_OVERRIDE_KEY]));
+  cachedSettings = syncSettings;
   return cachedSettings;
 }
 
@@ -43,9 +76,58 @@ chrome.storage.onChanged.addListener((changes, area) => {
     if (changes.language && timelinejump) {
       timelinejump.setLanguage(changes.language.newValue || 'auto');
     }
+
+    // 自定义站点、规则（例如拾取器保存）、按域名覆盖设置或章节索引开关变化后重新扫描
+    if (changes[CUSTOM_SITE_RULES_KEY] || changes.custom_urls || changes[SITE_OVERRIDES_KEY] || changes[SECTION_NAVIGATION_KEY]) {
+      isListLocked = false;
+      init();
+    }
   }
+
+  // 在设置页导入或移除了选择器覆盖规则包
+  if (area === 'local' && changes[SELECTOR_BUNDLE_OVERRIDE_KEY]) {
+    setSelectorBundleOverride(normalizeSelectorBundle(changes[SELECTOR_BUNDLE_OVERRIDE_KEY].newValue));
+    isListLocked = false;
+    init();
+  }
+});
+
+// 当前条目变化时自动更新 UI
+navEvents.on('indexChanged', () => {
+  updateUI();
+  updateActiveSection();
 });
 
+// 条目增删改时按变化集更新时间线，不重新初始化
+navEvents.on('itemsChanged', ({ items, changes }) => {
+  if (!timelinejump || !indexManager) return;
+  timelinejump.applyChanges(items, changes);
+  timelinejump.setPendingItem(indexManager.getGeneratingItem());
+  updateUI();
+});
+
+// 点击时间线节点或章节子节点：复用 navigateToAnswer 函数，统一管理锁逻辑
+navEvents.on('nodeClicked', ({ index }) => {
+  navigateToAnswer(index);
+});
+navEvents.on('sectionClicked', ({ itemIndex, sectionIndex }) => {
+  navigateToAnswer(itemIndex, sectionIndex);
+});
+
+navEvents.on('generationChanged', handleGenerationChange);
+
+/**
+ * 根据缓存的设置获取当前页面的适配器
+ */
+function resolveAdapter(settings: { [key: string]: any } | null): SiteAdapter | null {
+  return getActiveAdapter(
+    window.location,
+    settings?.custom_urls || [],
+    normalizeRulesMap(settings?.[CUSTOM_SITE_RULES_KEY]),
+    normalizeSiteOverridesMap(settings?.[SITE_OVERRIDES_KEY])
+  );
+}
+
 /**
  * 防抖函数
  */
@@ -60,10 +142,49 @@ function debounce<T extends (...args: any[]) => void>(
   };
 }
 
+/**
+ * 节流函数：间隔内最多执行一次，间隔内的最后一次调用会在间隔结束时补上
+ */
+function throttle<T extends (...args: any[]) => void>(
+  func: T,
+  wait: number
+): (...args: Parameters<T>) => void {
+  let lastRun = 0;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  return function(...args: Parameters<T>) {
+    const remaining = wait - (Date.now() - lastRun);
+    if (remaining <= 0) {
+      lastRun = Date.now();
+      func(...args);
+    } else if (!timeout) {
+      timeout = setTimeout(() => {
+        timeout = null;
+        lastRun = Date.now();
+        func(...args);
+      }, remaining);
+    }
+  };
+}
+
+/**
+ * 是否开启了回答内章节索引
+ */
+function isSectionNavigationEnabled(): boolean {
+  return !!cachedSettings?.[SECTION_NAVIGATION_KEY];
+}
+
+/**
+ * 上一个/下一个命令是否按章节步进
+ */
+function isSectionStepMode(): boolean {
+  return isSectionNavigationEnabled() && cachedSettings?.[NAV_STEP_MODE_KEY] === 'section';
+}
+
 /**
  * 导航到指定的问题
+ * @param sectionIndex - 回答内章节索引，-1 表示跳到提问本身
  */
-function navigateToAnswer(index: number): void {
+function navigateToAnswer(index: number, sectionIndex: number = -1): void {
   if (!indexManager) {
     return;
   }
@@ -75,14 +196,18 @@ function navigateToAnswer(index: number): void {
   
   // 2. 设置索引并执行滚动
   indexManager.setCurrentIndex(index);
-  const node = indexManager.getCurrentNode();
+  const section = sectionIndex >= 0 ? indexManager.getCurrentItem()?.sections?.[sectionIndex] : undefined;
+  const node = section ? section.node : indexManager.getCurrentNode();
   
   if (node) {
-    scrollToAndHighlight(node);
+    scrollToAndHighlight(node, 80, indexManager.getScrollContainer());
   }
   
   // 3. 更新 UI 显示
   updateUI();
+  if (timelinejump) {
+    timelinejump.updateActiveSection(section ? sectionIndex : -1);
+  }
   
   // 4. 恢复逻辑：监听用户交互或超时
   // 定义恢复函数
@@ -126,6 +251,15 @@ function navigateToPrev(): void {
     return;
   }
   
+  // 章节模式：逐个章节向上步进
+  if (isSectionStepMode()) {
+    const stop = indexManager.getAdjacentSectionStop(-1);
+    if (stop) {
+      navigateToAnswer(stop.itemIndex, stop.sectionIndex);
+    }
+    return;
+  }
+  
   const currentIndex = indexManager.getCurrentIndex();
   // 即使已经是第一个（index 0），也执行跳转（相当于滚动到顶部）
   // 使用 Math.max 确保不小于 0
@@ -143,6 +277,15 @@ function navigateToNext(): void {
     return;
   }
   
+  // 章节模式：逐个章节向下步进
+  if (isSectionStepMode()) {
+    const stop = indexManager.getAdjacentSectionStop(1);
+    if (stop) {
+      navigateToAnswer(stop.itemIndex, stop.sectionIndex);
+    }
+    return;
+  }
+  
   const currentIndex = indexManager.getCurrentIndex();
   const total = indexManager.getTotalCount();
   
@@ -163,6 +306,35 @@ function updateUI(): void {
   }
 }
 
+/**
+ * 根据滚动位置更新时间线上当前阅读的章节
+ */
+function updateActiveSection(): void {
+  if (timelinejump && indexManager && indexManager.hasSectionIndex()) {
+    timelinejump.updateActiveSection(indexManager.getCurrentSectionIndex(indexManager.getCurrentIndex()));
+  }
+}
+
+/**
+ * 回答开始/结束生成
+ * 生成结束时如果用户已向上翻阅（整个回答都在视口下方），显示"新回答已生成"提示，而不是强制切换当前条目
+ */
+function handleGenerationChange(event: GenerationEvent): void {
+  if (!timelinejump) return;
+
+  if (event.type === 'started') {
+    timelinejump.setPendingItem(event.item);
+    timelinejump.hideNewAnswerReady();
+    return;
+  }
+
+  timelinejump.setPendingItem(null);
+  const viewport = getScrollViewport(indexManager?.getScrollContainer() || null);
+  if (getViewportRect(event.item.answerNode).top > viewport.top + viewport.height) {
+    timelinejump.showNewAnswerReady(event.item);
+  }
+}
+
 /**
  * 处理窗口 resize 事件
  */
@@ -185,9 +357,40 @@ const handleScroll = debounce(() => {
     return;
   }
 
-  // 仅用于其他可能的滚动逻辑，索引更新已移交 IntersectionObserver
+  // 索引更新已移交 IntersectionObserver，这里只跟踪回答内的章节
+  updateActiveSection();
 }, 100);
 
+/**
+ * 内容区域的监听范围：characterData 用于察觉原地编辑提问时的纯文本变化
+ */
+const CONTENT_MUTATION_OPTIONS: MutationObserverInit = { childList: true, subtree: true, characterData: true };
+
+/**
+ * 监听根元素之下的 shadow root 和同源 iframe 文档
+ * 这些子树中的 DOM 变化和滚动事件不会传递到外层文档，需要单独监听；重复调用时只处理新出现的子树
+ */
+function observeDeepRoots(rootElement: HTMLElement): void {
+  if (!contentMutationObserver) return;
+
+  getDeepRoots(rootElement).slice(1).forEach(root => {
+    if (observedDeepRoots.includes(root)) return;
+    observedDeepRoots.push(root);
+    contentMutationObserver!.observe(root, CONTENT_MUTATION_OPTIONS);
+    root.addEventListener('scroll', handleScroll, { passive: true, capture: true });
+  });
+}
+
+/**
+ * 移除 observeDeepRoots 添加的滚动监听（MutationObserver 由 disconnect 统一断开）
+ */
+function unobserveDeepRoots(): void {
+  observedDeepRoots.forEach(root => {
+    root.removeEventListener('scroll', handleScroll, { capture: true } as any);
+  });
+  observedDeepRoots = [];
+}
+
 /**
  * 清理 UI
  * 在重新初始化或切换对话时调用，移除旧的时间线节点
@@ -209,33 +412,45 @@ function clearUI(): void {
   
   // 移除事件监听器，防止内存泄漏
   document.removeEventListener('scroll', handleScroll, { capture: true } as any);
+  unobserveDeepRoots();
   window.removeEventListener('resize', handleResize);
   
   // 重置 indexManager，避免持有旧的 DOM 引用
+  if (indexManager) {
+    indexManager.destroy();
+  }
   indexManager = null;
+
+  dismissAdapterHealthWarning();
+  activeAdapter = null;
 }
 
 /**
  * 检查 URL 参数并跳转到收藏的节点位置
+ * 优先按稳定节点 ID（llm_nav_id）定位，找不到时回退到索引（llm_nav_index）
  * 使用轮询检测目标节点是否已加载，确保页面内容就绪后再跳转
  */
 function checkAndNavigateToFavoriteIndex(): void {
   const url = new URL(window.location.href);
   const navIndex = url.searchParams.get('llm_nav_index');
+  const navId = url.searchParams.get('llm_nav_id');
   
-  if (navIndex === null) return;
+  if (navIndex === null && navId === null) return;
   
-  const targetIndex = parseInt(navIndex, 10);
-  if (isNaN(targetIndex) || targetIndex < 0) return;
+  const targetIndex = navIndex === null ? NaN : parseInt(navIndex, 10);
+  const hasValidIndex = !isNaN(targetIndex) && targetIndex >= 0;
+  if (!navId && !hasValidIndex) return;
   
   // 清理 URL 参数，避免刷新时重复跳转
   url.searchParams.delete('llm_nav_index');
+  url.searchParams.delete('llm_nav_id');
   window.history.replaceState({}, '', url.toString());
   
   // 轮询检测目标节点是否已加载
   let attempts = 0;
   const maxAttempts = 30; // 最多尝试 30 次（约 15 秒）
   const checkInterval = 500; // 每 500ms 检查一次
+  const idFallbackAttempts = 6; // 按 ID 找不到时，约 3 秒后回退到索引
   
   const checkAndNavigate = () => {
     attempts++;
@@ -247,11 +462,18 @@ function checkAndNavigateToFavoriteIndex(): void {
       return;
     }
     
-    const totalCount = indexManager.getTotalCount();
+    // 1. 按稳定 ID 定位
+    if (navId) {
+      const idIndex = indexManager.getItems().findIndex(item => item.id === navId);
+      if (idIndex >= 0) {
+        navigateToAnswer(idIndex);
+        return;
+      }
+    }
     
-    // 检查目标索引是否在有效范围内
-    if (targetIndex < totalCount) {
-      // 目标节点已存在，执行跳转
+    // 2. 回退到索引（有 ID 时先等待一段时间，避免内容尚未加载完就误跳）
+    const canFallback = !navId || attempts >= idFallbackAttempts;
+    if (hasValidIndex && canFallback && targetIndex < indexManager.getTotalCount()) {
       navigateToAnswer(targetIndex);
       return;
     }
@@ -267,31 +489,62 @@ function checkAndNavigateToFavoriteIndex(): void {
 }
 
 /**
- * 从 URL 或页面中获取对话 ID
+ * 获取当前页面的对话 ID
+ * 新对话还没有正式 ID 时，生成一个仅属于该对话的临时 ID，避免不同新对话共享标记
  */
-function getConversationId(): string {
-  const pathname = window.location.pathname;
-  // console.log('[LLM-Nav] Checking URL for ID:', pathname);
-  
-  // 尝试从 URL 匹配 /c/UUID (ChatGPT)
-  const matchC = pathname.match(/\/c\/([a-zA-Z0-9-]+)/);
-  if (matchC && matchC[1]) {
-    return matchC[1];
+function getCurrentConversationId(adapter: SiteAdapter | null): string {
+  const conversationId = resolveConversationId(adapter, window.location);
+  if (conversationId !== NEW_CHAT_CONVERSATION_ID) {
+    return conversationId;
   }
 
-  // 尝试从 URL 匹配 /a/chat/s/UUID (DeepSeek)
-  // 示例: /a/chat/s/8f0b40c6-a114-434e-adce-73b2aa5ccf73
-  const matchS = pathname.match(/\/s\/([a-zA-Z0-9-]+)/);
-  if (matchS && matchS[1]) {
-    // console.log('[LLM-Nav] Found DeepSeek ID:', matchS[1]);
-    return matchS[1];
+  if (!provisionalConversationId) {
+    provisionalConversationId = `${NEW_CHAT_CONVERSATION_ID}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+  return provisionalConversationId;
+}
+
+/**
+ * 新对话获得正式 ID 后，把临时 ID 下的标记和自动创建的收藏迁移过去
+ * 只有页面上仍能找到临时对话中的提问时才迁移，避免从新对话页点击进入其他对话时误迁移
+ */
+async function carryProvisionalState(conversationId: string): Promise<void> {
+  const carry = pendingProvisionalCarry;
+  if (!carry || !indexManager) return;
+  pendingProvisionalCarry = null;
+
+  const currentIds = new Set(indexManager.getItems().map(item => item.id));
+  const isSameConversation = carry.itemIds.some(id => currentIds.has(id));
+
+  if (isSameConversation) {
+    await moveConversationData(carry.fromId, conversationId, window.location.href);
+  } else {
+    // 临时对话已被放弃，清理其数据
+    await removeConversationData(carry.fromId);
   }
-  
-  // 如果是根路径，可能是新对话，尝试查找 meta 标签或特定元素
-  // 这里暂时使用 pathname 作为 ID (例如 "/" 或 "/chat")
-  // 为了避免不同新对话共享状态，最好能找到唯一标识
-  // 但如果没有唯一标识，只能暂时不持久化或使用临时 ID
-  return pathname === '/' ? 'new-chat' : pathname;
+}
+
+/**
+ * 清理不会再被迁移的临时对话数据
+ */
+function discardProvisionalData(conversationId: string | undefined): void {
+  if (!conversationId) return;
+  removeConversationData(conversationId).catch((error) => {
+    // console.error('[LLM-Nav] Failed to remove provisional state:', error);
+  });
+}
+
+/**
+ * 适配器提供了更精确的对话 ID 时，把旧版本按通用 URL 规则保存的数据迁移过来
+ */
+async function migrateLegacyConversationKey(adapter: SiteAdapter): Promise<void> {
+  const adapterId = adapter.getConversationId?.(window.location);
+  const legacyId = getDefaultConversationId(window.location);
+
+  // new-chat 是所有新对话共享的键，无法判断归属，不做迁移
+  if (!adapterId || adapterId === legacyId || adapterId === NEW_CHAT_CONVERSATION_ID || legacyId === NEW_CHAT_CONVERSATION_ID) return;
+
+  await moveConversationData(legacyId, adapterId, window.location.href);
 }
 
 import type { ThemeMode } from './navigation/themes';
@@ -306,24 +559,33 @@ function initTimelinejump(): void {
   
   // 如果不存在实例，则创建
   if (!timelinejump) {
-  timelinejump = new RightSideTimelinejump();
-    
-    // 注册节点点击事件 (只需注册一次)
-    timelinejump.onNodeClick((itemIndex: number) => {
-      // 复用 navigateToAnswer 函数，统一管理锁逻辑
-      navigateToAnswer(itemIndex);
-    });
+    timelinejump = new RightSideTimelinejump();
   }
   
+  // 已扫描到内容，撤销之前可能记录的适配器失效诊断
+  markAdapterHealthy();
+
   // 1. 更新/设置对话 ID
-  const conversationId = getConversationId();
-  timelinejump.setConversationId(conversationId);
+  const adapter = activeAdapter;
+  const conversationId = getCurrentConversationId(adapter);
+  if (pendingProvisionalCarry) {
+    const timeline = timelinejump;
+    // 迁移失败也要切换到正式 ID，否则时间线会一直停留在临时对话上
+    carryProvisionalState(conversationId)
+      .catch((error) => {
+        // console.error('[LLM-Nav] Failed to carry provisional state:', error);
+      })
+      .then(() => timeline.setConversationId(conversationId));
+  } else {
+    timelinejump.setConversationId(conversationId);
+  }
 
   // 1.5 设置站点名称（用于收藏功能）
-  const adapter = getActiveAdapter(window.location, cachedSettings?.custom_urls || []);
   if (adapter) {
     timelinejump.setSiteName(adapter.name);
   }
+  timelinejump.setShareUrl(getShareUrl(adapter, window.location));
+  void timelinejump.setConversationTitle(adapter?.getConversationTitle?.(document) || null);
 
   // 1.6 设置语言
   const language = (cachedSettings?.language as Language) || 'auto';
@@ -335,8 +597,10 @@ function initTimelinejump(): void {
   
   // 3. 传入所有 Prompt-Answer 条目 (init 方法内部会处理增量更新)
   const items = indexManager.getItems();
+  timelinejump.setSectionNodesEnabled(indexManager.hasSectionIndex());
   timelinejump.init(items);
   timelinejump.updateActiveIndex(indexManager.getCurrentIndex());
+  updateActiveSection();
 }
 
 /**
@@ -384,10 +648,9 @@ async function init() {
     // 关键检查：如果在 await 期间被外部再次调用了 clearUI/init，则终止
     if (executionId !== currentInitId) return;
 
-    const customUrls = settings.custom_urls || [];
-    
     // 获取当前页面适配的站点适配器
-    const adapter = getActiveAdapter(window.location, customUrls);
+    const adapter = resolveAdapter(settings);
+    activeAdapter = adapter;
     // console.log('[LLM-Nav] Active adapter:', adapter ? adapter.name : 'None', window.location.href);
     
     if (!adapter) {
@@ -395,20 +658,23 @@ async function init() {
       if (executionId === currentInitId) isInitializing = false;
       return;
     }
+
+    await migrateLegacyConversationKey(adapter);
+    if (executionId !== currentInitId) return;
     
   // 旧的悬浮按钮导航已被时间线导航替代，此处代码已移除
   
   // 尝试查找更精确的根容器（通常是 <main>）以减少不必要的扫描和监听
-    const mainElement = document.querySelector('main');
+  // 消息渲染在 Shadow DOM / iframe 中的站点，<main> 也可能在这些边界之内
+    const mainElement = adapter.usesDeepQuery
+      ? deepQuerySelector(document, 'main')
+      : document.querySelector('main');
     const rootElement = mainElement || document.body;
     // console.log('[LLM-Nav] Root element:', rootElement);
     
     // 初始化索引管理器
-    indexManager = new AnswerIndexManager(adapter, rootElement);
-    
-    // 注册索引变更回调，自动更新 UI
-    indexManager.onIndexChange((index) => {
-      updateUI();
+    indexManager = new AnswerIndexManager(adapter, rootElement, {
+      indexSections: !!settings?.[SECTION_NAVIGATION_KEY]
     });
   
   const totalCount = indexManager.getTotalCount();
@@ -419,7 +685,7 @@ async function init() {
     isListLocked = true;
     
     // 根据当前滚动位置设置初始索引
-    indexManager.updateCurrentIndexByScroll(window.scrollY);
+    indexManager.updateCurrentIndexByScroll();
   } else {
     // 如果没有找到问题，不锁定，允许后续自动刷新
     isListLocked = false;
@@ -446,39 +712,58 @@ async function init() {
     contentMutationObserver.disconnect();
     contentMutationObserver = null;
   }
+  unobserveDeepRoots();
 
-  contentMutationObserver = new MutationObserver(debounce(() => {
+  // 生成期间 DOM 持续变化，防抖的刷新要等到生成结束才执行，生成状态需要单独以节流方式检查
+  const checkGeneration = throttle(() => {
+    if (executionId !== currentInitId) return;
+    if (indexManager && isListLocked) {
+      indexManager.updateGenerationState();
+    }
+  }, 500);
+
+  const handleContentMutations = debounce(() => {
     // 再次检查 ID，确保回调仍然有效（虽然 destroy 会断开 observer，但防抖可能导致延迟执行）
     if (executionId !== currentInitId) return;
     if (!indexManager) return;
 
+    // 变化可能带来新的 shadow root 或 iframe，补充监听
+    if (adapter.usesDeepQuery) {
+      observeDeepRoots(rootElement);
+    }
+
     // 如果列表已锁定，检查是否是新消息（数量增加）
     if (isListLocked) {
-      // 检测是否需要刷新（即实际数量是否发生变化）
+      // 检测是否需要刷新（数量变化、节点被替换或提问被原地编辑）
       if (indexManager.needsRefresh()) {
         // 先获取旧的数量
         const oldCount = indexManager.getTotalCount();
         
-        // 刷新数据
+        // 增量刷新：时间线通过 onItemsChange 按变化集更新（包括节点被替换，例如切换了提问/回答的版本）
         indexManager.refresh();
         const newCount = indexManager.getTotalCount();
         
-        // 如果数量增加了，说明有新对话
+        // 如果数量增加了，说明有新对话；按实际滚动位置确定当前条目，不强制选中最后一个
         if (newCount > oldCount) {
-          // 重新初始化时间线（RightSideTimelinejump 会处理节点重绘和布局）
-          initTimelinejump();
-          
-          // 自动滚动到底部（通常新消息在最下面）
-          // 并选中最后一个节点
-          indexManager.setCurrentIndex(newCount - 1);
+          indexManager.updateCurrentIndexByScroll();
           updateUI();
         }
+      } else if (timelinejump && indexManager.refreshSections()) {
+        // 条目数量不变但回答内容变化（例如流式输出），更新章节子节点
+        timelinejump.refreshPositions();
+        updateActiveSection();
       }
       return;
     }
     
     // 只有在问题数为0时才尝试刷新（说明页面可能还在加载）
     if (indexManager.getTotalCount() === 0) {
+      // 自托管前端渲染完成后 DOM 指纹才能匹配，此时换用对应的适配器重新初始化
+      if (isGenericCustomAdapter(adapter) && !isGenericCustomAdapter(resolveAdapter(settings) || adapter)) {
+        init();
+        return;
+      }
+
       if (indexManager.needsRefresh()) {
         indexManager.refresh();
         const newCount = indexManager.getTotalCount();
@@ -486,7 +771,7 @@ async function init() {
         if (newCount > 0) {
           // 找到问题后立即锁定
           isListLocked = true;
-          indexManager.updateCurrentIndexByScroll(window.scrollY);
+          indexManager.updateCurrentIndexByScroll();
           
           // ============ 延迟初始化的时间线 ============
           initTimelinejump();
@@ -496,13 +781,22 @@ async function init() {
         }
       }
     }
-  }, 1000));
-  
-  contentMutationObserver.observe(rootElement, {
-    childList: true,
-    subtree: true
+  }, 1000);
+
+  contentMutationObserver = new MutationObserver((records) => {
+    // 防抖只保留最后一批记录，提问节点内部的变化（原地编辑）需要在这里逐批记下
+    if (indexManager) {
+      indexManager.trackMutations(records);
+    }
+    handleContentMutations();
+    checkGeneration();
   });
   
+  contentMutationObserver.observe(rootElement, CONTENT_MUTATION_OPTIONS);
+  if (adapter.usesDeepQuery) {
+    observeDeepRoots(rootElement);
+  }
+  
   // 如果初次扫描未找到问题，5秒后停止自动刷新
   if (totalCount === 0) {
     setTimeout(() => {
@@ -511,6 +805,14 @@ async function init() {
       if (!isListLocked) {
         isListLocked = true;
       }
+
+      // 内置适配器命中了 URL 却始终扫描不到提问，可能是站点改版导致选择器失效
+      if (indexManager && indexManager.getTotalCount() === 0 && isBuiltInAdapter(adapter)) {
+        const language = (settings?.language as Language) || 'auto';
+        runAdapterHealthCheck(adapter, rootElement, language).catch((error) => {
+          // console.error('[LLM-Nav] Adapter health check failed:', error);
+        });
+      }
     }, 5000);
   }
   
@@ -536,6 +838,23 @@ function handleUrlChange() {
   if (currentUrl !== lastUrl) {
     lastUrl = currentUrl;
     
+    // 从新对话跳转时，记录临时 ID 以便在正式 ID 出现后迁移数据
+    if (provisionalConversationId) {
+      const nextId = resolveConversationId(resolveAdapter(cachedSettings), window.location);
+      if (nextId !== NEW_CHAT_CONVERSATION_ID) {
+        // 上一个临时对话还没来得及迁移就被替换，它的数据不会再被访问
+        discardProvisionalData(pendingProvisionalCarry?.fromId);
+        pendingProvisionalCarry = {
+          fromId: provisionalConversationId,
+          itemIds: indexManager ? indexManager.getItems().map(item => item.id) : []
+        };
+      } else {
+        // 新对话跳到另一个新对话：临时 ID 不会再出现，直接清理其数据
+        discardProvisionalData(provisionalConversationId);
+      }
+      provisionalConversationId = null;
+    }
+    
     // 立即清理 UI，防止新旧节点混淆
     clearUI();
     
@@ -549,8 +868,20 @@ function handleUrlChange() {
   }
 }
 
-// 使用轮询检测 URL 变化 (替代昂贵的全局 MutationObserver)
-setInterval(handleUrlChange, 1000);
+/**
+ * 检测站点对话标题变化（站点自动命名或用户在站点侧重命名对话）
+ */
+function handleTitleChange() {
+  if (!timelinejump || !activeAdapter) return;
+
+  void timelinejump.setConversationTitle(activeAdapter.getConversationTitle?.(document) || null);
+}
+
+// 使用轮询检测 URL 和标题变化 (替代昂贵的全局 MutationObserver)
+setInterval(() => {
+  handleUrlChange();
+  handleTitleChange();
+}, 1000);
 
 // 监听 popstate 事件（浏览器前进后退）
 window.addEventListener('popstate', () => {
@@ -601,6 +932,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       timelinejump.togglePinnedCurrent();
     }
     sendResponse({ success: true });
+  } else if (message.type === 'LLM_NAV_START_RULE_PICKER') {
+    const language = (cachedSettings?.language as Language) || 'auto';
+    startRuleElementPicker(language);
+    sendResponse({ success: true });
   }
   
   // 所有消息都同步处理完成，不需要返回 true
@@ -1,4 +1,8 @@
-import type { SiteAdapter, PromptAnswerPair } from '../siteAdapters/index';
+import { extractPromptSummary, type SiteAdapter, type PromptAnswerPair } from '../siteAdapters/index';
+import { extractAnswerSections, type AnswerSection } from './answerSections';
+import { getDeepTopOffset, getViewportRect } from '../dom/deepQuery';
+import { getScrollViewport, isDocumentScroller } from '../dom/scrollContainer';
+import { navEvents } from '../eventBus';
 
 /**
  * Prompt-Answer 条目信息（扩展版）
@@ -7,8 +11,58 @@ import type { SiteAdapter, PromptAnswerPair } from '../siteAdapters/index';
 export interface PromptAnswerItem extends PromptAnswerPair {
   /** 在文档中的相对位置 (0~1) */
   relativePosition?: number;
+  /** 回答内的章节（仅在开启章节索引时提取） */
+  sections?: AnswerSection[];
 }
 
+/**
+ * 按章节步进时的一个停靠点
+ */
+export interface SectionStop {
+  itemIndex: number;
+  /** -1 表示提问本身 */
+  sectionIndex: number;
+  node: HTMLElement;
+}
+
+/**
+ * 一次刷新带来的条目变化
+ * 条目按提问节点的身份比对：同一个提问节点沿用原条目对象，因此调用方可以按对象身份复用对应的 UI
+ */
+export interface IndexChangeSet {
+  /** 新出现的条目 */
+  added: PromptAnswerItem[];
+  /** 提问节点已不在列表中的条目 */
+  removed: PromptAnswerItem[];
+  /** 提问节点不变但 ID、文本、回答节点或版本发生变化的条目（例如原地编辑了提问） */
+  updated: PromptAnswerItem[];
+  /** 在同一位置被新节点替换的条目（from 在 removed 中，to 在 added 中） */
+  replaced: Array<{ from: PromptAnswerItem; to: PromptAnswerItem }>;
+  /** 仍是同一轮对话但 ID 发生变化的条目：旧 ID -> 新 ID（用于迁移标记） */
+  idChanges: Map<string, string>;
+}
+
+/**
+ * 回答生成状态变化
+ */
+export interface GenerationEvent {
+  /** started：开始生成；finished：生成结束 */
+  type: 'started' | 'finished';
+  /** 正在生成（或刚生成完）回答的条目 */
+  item: PromptAnswerItem;
+}
+
+export interface AnswerIndexManagerOptions {
+  /** 是否索引回答内的标题（h1–h3 和加粗引导语） */
+  indexSections?: boolean;
+}
+
+/** 阅读线位置（视口高度的比例）：顶部在阅读线以上的章节视为正在阅读 */
+const READING_LINE_RATIO = 0.3;
+
+/** 停靠点顶部超出视口这么多像素时，视为正在阅读该章节中部 */
+const MID_SECTION_THRESHOLD = 10;
+
 /**
  * 回答索引管理器（重构版）
  * 基于 Prompt-Answer 配对管理对话导航
@@ -25,14 +79,24 @@ export class AnswerIndexManager {
   private readonly CACHE_VALIDITY_MS = 500; // 缓存有效期500ms
 
   private intersectionObserver: IntersectionObserver | null = null;
-  private onIndexChangeCallback: ((index: number) => void) | null = null;
+  // 站点的滚动容器（适配器通过 getScrollContainer 提供），为 null 时在文档上滚动
+  private scrollContainer: HTMLElement | null = null;
+
+  // 正在生成回答的条目（适配器未实现 isGenerating 时始终为 null）
+  private generatingItem: PromptAnswerItem | null = null;
 
   // 是否允许滚动更新（默认为 true）
   private scrollUpdateEnabled: boolean = true;
 
-  constructor(adapter: SiteAdapter, root: Document | HTMLElement) {
+  private indexSections: boolean;
+
+  // 提问节点内部发生过 DOM 变化（原地编辑时数量和节点都不变，需要据此触发刷新）
+  private promptsDirty: boolean = false;
+
+  constructor(adapter: SiteAdapter, root: Document | HTMLElement, options: AnswerIndexManagerOptions = {}) {
     this.adapter = adapter;
     this.root = root;
+    this.indexSections = !!options.indexSections;
     this.refresh();
   }
 
@@ -45,46 +109,251 @@ export class AnswerIndexManager {
   }
 
   /**
-   * 注册索引变更回调
+   * 获取正在生成回答的条目
+   */
+  getGeneratingItem(): PromptAnswerItem | null {
+    return this.generatingItem;
+  }
+
+  /**
+   * 向适配器查询最后一个回答是否仍在生成，状态变化时发布 generationChanged（started/finished）
+   * 生成期间 DOM 持续变化，防抖的刷新要等到生成结束才会执行，因此调用方应以节流方式调用
    */
-  onIndexChange(callback: (index: number) => void): void {
-    this.onIndexChangeCallback = callback;
+  updateGenerationState(): void {
+    if (!this.adapter.isGenerating) return;
+
+    const doc = this.root instanceof Document ? this.root : this.root.ownerDocument;
+    const generating = this.adapter.isGenerating(doc);
+
+    if (generating && !this.generatingItem) {
+      // 新提问与生成几乎同时出现，先补上新条目
+      if (this.needsRefresh()) {
+        this.refresh();
+      }
+      const item = this.items[this.items.length - 1];
+      if (!item) return;
+
+      this.generatingItem = item;
+      navEvents.emit('generationChanged', { type: 'started', item });
+    } else if (!generating && this.generatingItem) {
+      const previous = this.generatingItem;
+      this.generatingItem = null;
+
+      // 回答节点在生成过程中才出现，结束时同步一次条目和章节
+      this.refresh();
+      const item = this.items.includes(previous) ? previous : this.items[this.items.length - 1];
+      if (item) {
+        navEvents.emit('generationChanged', { type: 'finished', item });
+      }
+    }
   }
 
   /**
    * 刷新对话配对列表
-   * 重新查找所有 Prompt-Answer 配对并更新索引
+   * 按提问节点的身份与上一次的条目比对：保留的条目沿用原对象，只为新出现的提问提取摘要和章节、注册观察，
+   * 当前索引保持指向同一个条目
+   * 条目有变化时发布 itemsChanged，当前条目随之变化时再发布 indexChanged
+   * @returns 本次刷新的条目变化
    */
-  refresh(): void {
+  refresh(): IndexChangeSet {
     const pairs = this.adapter.getPromptAnswerPairs(this.root);
-    
-    // 转换为 PromptAnswerItem，已经包含 topOffset
-    this.items = pairs.map(pair => ({
-      ...pair,
-      // relativePosition 稍后在需要时计算
-    }));
+    const previousItems = this.items;
+    const previousByNode = new Map(previousItems.map(item => [item.promptNode, item] as const));
+    const currentItem = previousItems[this.currentIndex] || null;
+    const previousIndex = this.currentIndex;
+    const changes: IndexChangeSet = { added: [], removed: [], updated: [], replaced: [], idChanges: new Map() };
+    this.promptsDirty = false;
+
+    const items = pairs.map((pair): PromptAnswerItem => {
+      const existing = previousByNode.get(pair.promptNode);
+      if (!existing) {
+        const item: PromptAnswerItem = {
+          ...pair,
+          promptSummary: pair.promptSummary || extractPromptSummary(pair.promptNode),
+          // relativePosition 稍后计算
+          ...(this.indexSections ? { sections: extractAnswerSections(pair.answerNode) } : {})
+        };
+        changes.added.push(item);
+        return item;
+      }
+
+      previousByNode.delete(pair.promptNode);
+      if (this.isItemChanged(existing, pair)) {
+        if (existing.id !== pair.id) {
+          changes.idChanges.set(existing.id, pair.id);
+        }
+        Object.assign(existing, pair, {
+          promptSummary: pair.promptSummary || extractPromptSummary(pair.promptNode)
+        });
+        if (!pair.variant) delete existing.variant;
+        if (!pair.sourceCount) delete existing.sourceCount;
+        if (this.indexSections) existing.sections = extractAnswerSections(pair.answerNode);
+        changes.updated.push(existing);
+      } else {
+        // 位置随页面内容变化，不算作条目变化
+        existing.topOffset = pair.topOffset;
+      }
+      return existing;
+    });
+    changes.removed = Array.from(previousByNode.values());
 
     // 按 topOffset 排序（已经由适配器排序，这里再确认一次）
-    this.items.sort((a, b) => a.topOffset - b.topOffset);
-    
+    items.sort((a, b) => a.topOffset - b.topOffset);
+    this.items = items;
+    this.findReplacements(previousItems, changes);
+
     // 计算相对位置
     this.updateRelativePositions();
-    
-    // 清除位置缓存
+
+    // 清除位置缓存（按索引缓存，条目增删后失效）
     this.positionCache.clear();
-    
-    // 初始化 IntersectionObserver
-    this.initIntersectionObserver();
+
+    // 滚动容器可能在条目出现后才渲染或被站点替换，变化时重建 IntersectionObserver
+    const containerChanged = this.updateScrollContainer();
+    this.updateObservedNodes(changes, containerChanged);
+
+    // 当前条目仍在时保持指向它；被移除时停在原位置（越界则取最后一个）
+    // 先静默更新，等时间线等订阅者应用完条目变化后再通知
+    const keptIndex = currentItem ? items.indexOf(currentItem) : -1;
+    this.currentIndex = this.clampIndex(keptIndex !== -1 ? keptIndex : this.currentIndex);
+
+    // 正在生成的条目被替换（例如重新生成）时，改为跟踪最后一个条目
+    if (this.generatingItem && !items.includes(this.generatingItem)) {
+      this.generatingItem = items[items.length - 1] || null;
+    }
+
+    if (this.hasChanges(changes)) {
+      navEvents.emit('itemsChanged', { items, changes });
+    }
+    if (this.currentIndex !== previousIndex || this.getCurrentItem() !== currentItem) {
+      this.emitIndexChanged();
+    }
+    return changes;
   }
 
   /**
-   * 初始化 IntersectionObserver 以替代 scroll 事件轮询
+   * 找出在同一位置被替换的条目
+   * 以前后都保留的条目为锚点，同一锚点之后被移除的条目与新增的条目按顺序一一对应
+   * 提问文本相同的替换视为同一轮对话被重新渲染，记录 ID 变化以便迁移标记；
+   * 文本不同则是编辑产生了新版本，标记仍留在原版本上
    */
-  private initIntersectionObserver(): void {
+  private findReplacements(previousItems: PromptAnswerItem[], changes: IndexChangeSet): void {
+    if (changes.removed.length === 0 || changes.added.length === 0) return;
+
+    const groupByAnchor = (list: PromptAnswerItem[], members: Set<PromptAnswerItem>) => {
+      const groups = new Map<PromptAnswerItem | null, PromptAnswerItem[]>();
+      let anchor: PromptAnswerItem | null = null;
+      list.forEach(item => {
+        if (!members.has(item)) {
+          anchor = item;
+          return;
+        }
+        const group = groups.get(anchor) || [];
+        group.push(item);
+        groups.set(anchor, group);
+      });
+      return groups;
+    };
+
+    const removedGroups = groupByAnchor(previousItems, new Set(changes.removed));
+    const addedGroups = groupByAnchor(this.items, new Set(changes.added));
+
+    removedGroups.forEach((removed, anchor) => {
+      const added = addedGroups.get(anchor) || [];
+      for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+        const from = removed[i];
+        const to = added[i];
+        changes.replaced.push({ from, to });
+        if (from.id !== to.id && from.promptText === to.promptText) {
+          changes.idChanges.set(from.id, to.id);
+        }
+      }
+    });
+  }
+
+  /**
+   * 记录发生在提问节点内部的 DOM 变化
+   * 原地编辑提问时条目数量和节点都不变，needsRefresh 仅靠计数无法察觉
+   */
+  trackMutations(records: MutationRecord[]): void {
+    if (this.promptsDirty || this.items.length === 0) return;
+
+    this.promptsDirty = records.some(record => {
+      const target = record.target instanceof Element ? record.target : record.target.parentElement;
+      return !!target?.closest('[data-llm-nav-index]');
+    });
+  }
+
+  /**
+   * 变化集中是否有任何条目
+   */
+  hasChanges(changes: IndexChangeSet): boolean {
+    return changes.added.length > 0 || changes.removed.length > 0 || changes.updated.length > 0;
+  }
+
+  /**
+   * 同一个提问节点重新扫描后，配对信息是否发生变化
+   */
+  private isItemChanged(item: PromptAnswerItem, pair: PromptAnswerPair): boolean {
+    return item.id !== pair.id ||
+           item.promptText !== pair.promptText ||
+           item.answerNode !== pair.answerNode ||
+           item.sourceCount !== pair.sourceCount ||
+           item.variant?.active !== pair.variant?.active ||
+           item.variant?.count !== pair.variant?.count ||
+           item.variant?.edited !== pair.variant?.edited;
+  }
+
+  /**
+   * 重新向适配器获取滚动容器
+   * @returns 容器是否变化（变化时 IntersectionObserver 已按新的根重建）
+   */
+  private updateScrollContainer(): boolean {
+    const resolved = this.adapter.getScrollContainer ? this.adapter.getScrollContainer(this.root) : null;
+    const container = resolved && !isDocumentScroller(resolved) ? resolved : null;
+    if (container === this.scrollContainer && this.intersectionObserver) {
+      return false;
+    }
+
+    this.scrollContainer = container;
     if (this.intersectionObserver) {
       this.intersectionObserver.disconnect();
     }
-    
+    this.initIntersectionObserver();
+    return true;
+  }
+
+  /**
+   * 获取站点的滚动容器，在文档上滚动时返回 null
+   */
+  getScrollContainer(): HTMLElement | null {
+    return this.scrollContainer;
+  }
+
+  /**
+   * 按变化集更新 IntersectionObserver 的观察对象，并重新标记索引
+   * @param observeAll - IntersectionObserver 刚重建，需要重新观察所有条目
+   */
+  private updateObservedNodes(changes: IndexChangeSet, observeAll: boolean): void {
+    const observer = this.intersectionObserver!;
+
+    changes.removed.forEach(item => {
+      observer.unobserve(item.promptNode);
+      delete item.promptNode.dataset.llmNavIndex;
+    });
+
+    this.items.forEach((item, index) => {
+      item.promptNode.dataset.llmNavIndex = String(index);
+    });
+
+    (observeAll ? this.items : changes.added).forEach(item => observer.observe(item.promptNode));
+  }
+
+  /**
+   * 初始化 IntersectionObserver 以替代 scroll 事件轮询
+   * 观察对象在每次刷新时按变化集增减，仅在滚动容器变化时重建
+   */
+  private initIntersectionObserver(): void {
     // 使用 IntersectionObserver 监听元素穿过视口中线的行为
     // rootMargin 设置为中间一条线（稍微有一点厚度以防跳过）
     // 当 Prompt 从下面上来进入中线，或者从上面下来进入中线，都会触发
@@ -109,31 +378,47 @@ export class AnswerIndexManager {
         
         if (targetIndex !== -1) {
           this.setCurrentIndex(targetIndex);
-          if (this.onIndexChangeCallback) {
-            this.onIndexChangeCallback(targetIndex);
-          }
         }
       }
     }, {
+      // 站点在内部容器中滚动时以该容器为根；否则不指定 root，
+      // 隐式根是顶层视口，shadow root 和同源 iframe 中的节点同样能按顶层视口判定相交
+      root: this.scrollContainer,
       // 触发区域：视口中间偏上的位置 (45% ~ 50%)
       // 这样当标题滚到屏幕中间时触发高亮
       rootMargin: '-45% 0px -50% 0px',
       threshold: 0
     });
+  }
 
-    this.items.forEach((item, index) => {
-      if (item.promptNode) {
-        // 标记索引
-        item.promptNode.dataset.llmNavIndex = String(index);
-        this.intersectionObserver!.observe(item.promptNode);
-      }
-    });
+  /**
+   * 停止观察所有节点（切换对话或重新初始化时调用）
+   */
+  destroy(): void {
+    if (this.intersectionObserver) {
+      this.intersectionObserver.disconnect();
+      this.intersectionObserver = null;
+    }
   }
   
   /**
    * 更新所有条目的相对位置（用于时间线节点位置映射）
    */
   private updateRelativePositions(): void {
+    const container = this.scrollContainer;
+    if (container) {
+      // 在内部容器中滚动：按节点在容器内容中的位置计算
+      const containerHeight = container.scrollHeight || 1000;
+      const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+
+      this.items.forEach(item => {
+        item.relativePosition = this.items.length === 1
+          ? 0
+          : (getViewportRect(item.promptNode).top - containerTop) / containerHeight;
+      });
+      return;
+    }
+
     // 优先使用 scrollHeight，如果为 0 则给一个默认值防止除以零
     const documentHeight = document.documentElement.scrollHeight || document.body.scrollHeight || 1000;
     
@@ -146,13 +431,19 @@ export class AnswerIndexManager {
     });
   }
 
+  /**
+   * 阅读线在顶层视口中的位置（滚动容器可见区域顶部以下 READING_LINE_RATIO 处）
+   */
+  private getReadingLine(): number {
+    const viewport = getScrollViewport(this.scrollContainer);
+    return viewport.top + viewport.height * READING_LINE_RATIO;
+  }
+
   /**
    * 计算元素相对于文档顶部的偏移量
    */
   private getTopOffset(element: HTMLElement): number {
-    const rect = element.getBoundingClientRect();
-    const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
-    return rect.top + scrollTop;
+    return getDeepTopOffset(element);
   }
 
   /**
@@ -177,23 +468,29 @@ export class AnswerIndexManager {
   }
 
   /**
-   * 设置当前索引
+   * 设置当前索引，索引变化时发布 indexChanged
    * @param index - 新的索引值（从 0 开始）
    */
   setCurrentIndex(index: number): void {
-    if (this.items.length === 0) {
-      this.currentIndex = 0;
-      return;
-    }
+    const clamped = this.clampIndex(index);
+    if (clamped === this.currentIndex) return;
 
-    // 防止越界
-    if (index < 0) {
-      this.currentIndex = 0;
-    } else if (index >= this.items.length) {
-      this.currentIndex = this.items.length - 1;
-    } else {
-      this.currentIndex = index;
+    this.currentIndex = clamped;
+    this.emitIndexChanged();
+  }
+
+  /**
+   * 将索引限制在条目范围内（防止越界）
+   */
+  private clampIndex(index: number): number {
+    if (this.items.length === 0 || index < 0) {
+      return 0;
     }
+    return Math.min(index, this.items.length - 1);
+  }
+
+  private emitIndexChanged(): void {
+    navEvents.emit('indexChanged', { index: this.currentIndex, item: this.getCurrentItem() });
   }
 
   /**
@@ -258,6 +555,97 @@ export class AnswerIndexManager {
     return false;
   }
 
+  /**
+   * 是否开启了章节索引
+   */
+  hasSectionIndex(): boolean {
+    return this.indexSections;
+  }
+
+  /**
+   * 重新提取各回答的章节（回答流式输出或内容变化时调用，条目数量不变）
+   * @returns 章节是否有变化
+   */
+  refreshSections(): boolean {
+    if (!this.indexSections) return false;
+
+    let changed = false;
+    this.items.forEach(item => {
+      const sections = extractAnswerSections(item.answerNode);
+      const previous = item.sections || [];
+      const isSame = sections.length === previous.length &&
+                     sections.every((section, i) => section.node === previous[i].node && section.text === previous[i].text);
+      if (!isSame) {
+        item.sections = sections;
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  /**
+   * 获取按文档顺序排列的所有章节停靠点（提问 + 回答内的章节）
+   */
+  private getSectionStops(): SectionStop[] {
+    const stops: SectionStop[] = [];
+    this.items.forEach((item, itemIndex) => {
+      stops.push({ itemIndex, sectionIndex: -1, node: item.promptNode });
+      (item.sections || []).forEach((section, sectionIndex) => {
+        stops.push({ itemIndex, sectionIndex, node: section.node });
+      });
+    });
+    return stops;
+  }
+
+  /**
+   * 获取指定条目中正在阅读的章节索引
+   * @returns 章节索引；还没读到第一个章节时返回 -1
+   */
+  getCurrentSectionIndex(itemIndex: number): number {
+    const sections = this.items[itemIndex]?.sections || [];
+    const readingLine = this.getReadingLine();
+    let current = -1;
+
+    for (let i = 0; i < sections.length; i++) {
+      if (getViewportRect(sections[i].node).top <= readingLine) {
+        current = i;
+      } else {
+        break;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * 按章节步进：获取上一个/下一个停靠点
+   * 向上步进时，如果正在阅读的章节标题已滚出视口，先回到该章节开头
+   * @returns 目标停靠点，已到边界时返回 null
+   */
+  getAdjacentSectionStop(direction: 1 | -1): SectionStop | null {
+    const stops = this.getSectionStops();
+    if (stops.length === 0) return null;
+
+    const viewportTop = getScrollViewport(this.scrollContainer).top;
+    const readingLine = this.getReadingLine();
+    let current = 0;
+    let currentTop = viewportTop;
+
+    for (let i = 0; i < stops.length; i++) {
+      const top = getViewportRect(stops[i].node).top;
+      if (top <= readingLine) {
+        current = i;
+        currentTop = top;
+      } else {
+        break;
+      }
+    }
+
+    if (direction === -1 && currentTop < viewportTop - MID_SECTION_THRESHOLD) {
+      return stops[current];
+    }
+    return stops[current + direction] || null;
+  }
+
   /**
    * 获取节点的缓存位置信息（如果缓存有效）
    * @param index - 节点索引
@@ -280,9 +668,9 @@ export class AnswerIndexManager {
   /**
    * 缓存节点的位置信息
    * @param index - 节点索引
-   * @param rect - getBoundingClientRect结果
+   * @param rect - getViewportRect结果
    */
-  private cachePosition(index: number, rect: DOMRect): void {
+  private cachePosition(index: number, rect: { top: number, bottom: number }): void {
     this.positionCache.set(index, {
       top: rect.top,
       bottom: rect.bottom,
@@ -292,20 +680,19 @@ export class AnswerIndexManager {
 
   /**
    * 根据当前滚动位置更新当前索引
-   * 优化逻辑：实时检测 DOM 位置，找到视口中最相关的 Prompt
-   * @param scrollY - 当前滚动位置（window.scrollY）
+   * 优化逻辑：实时检测 DOM 位置，找到视口（或站点滚动容器可见区域）中最相关的 Prompt
    */
-  updateCurrentIndexByScroll(scrollY: number): void {
+  updateCurrentIndexByScroll(): void {
     if (this.items.length === 0) {
       return;
     }
 
-    const windowHeight = window.innerHeight;
+    const viewport = getScrollViewport(this.scrollContainer);
     
     // 实时检测每个 Prompt 的位置
     // 我们要找的是：最后一个"顶部在视口中线及其上方"的节点
     // 意图：用户正在阅读的内容，通常属于那个"标题还在上面"的章节
-    const viewportCenter = windowHeight / 2;
+    const viewportCenter = viewport.top + viewport.height / 2;
     let activeIndex = 0;
     
     // 找到所有位于中线以上的节点
@@ -321,7 +708,8 @@ export class AnswerIndexManager {
         rectTop = cachedPos.top;
       } else {
         // 缓存失效或不存在，重新计算
-        const rect = node.getBoundingClientRect();
+        // 节点可能位于同源 iframe 中，统一换算到顶层视口坐标
+        const rect = getViewportRect(node);
         this.cachePosition(i, rect);
         rectTop = rect.top;
       }
@@ -337,9 +725,7 @@ export class AnswerIndexManager {
     }
     
     // 只有当索引真正改变时才更新
-    if (this.currentIndex !== activeIndex) {
-      this.currentIndex = activeIndex;
-    }
+    this.setCurrentIndex(activeIndex);
   }
 
   /**
@@ -347,6 +733,16 @@ export class AnswerIndexManager {
    * 如果页面上的对话数量发生变化，返回 true
    */
   needsRefresh(): boolean {
+    // 提问节点内部有变化（例如原地编辑）
+    if (this.promptsDirty) {
+      return true;
+    }
+
+    // 切换版本（编辑/重新生成）时站点会重新渲染该轮之后的消息，旧节点脱离文档
+    if (this.items.some(item => !item.promptNode.isConnected)) {
+      return true;
+    }
+
     // 优先使用轻量级的计数方法
     if (this.adapter.getPromptCount) {
       return this.adapter.getPromptCount(this.root) !== this.items.length;
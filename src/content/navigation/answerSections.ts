@@ -0,0 +1,72 @@
+/**
+ * 回答内章节索引
+ * 从长回答中提取 h1–h3 标题和加粗的段落引导语，作为时间线的子节点
+ */
+
+export interface AnswerSection {
+  /** 1–3 对应 h1–h3，4 表示加粗的段落引导语 */
+  level: 1 | 2 | 3 | 4;
+  /** 章节标题文本 */
+  text: string;
+  /** 章节标题所在的 DOM 节点 */
+  node: HTMLElement;
+}
+
+/** 单个回答最多索引的章节数量 */
+const MAX_SECTIONS_PER_ANSWER = 50;
+
+/** 加粗引导语的最大长度，超过时更像是强调正文而不是小标题 */
+const MAX_LEAD_LENGTH = 80;
+
+/** 这些容器中的标题/加粗文本不是回答的章节 */
+const IGNORED_CONTAINERS = 'pre, code, table, blockquote';
+
+function normalizeText(text: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function isIgnored(node: HTMLElement, answerNode: HTMLElement): boolean {
+  const container = node.closest(IGNORED_CONTAINERS);
+  return !!container && answerNode.contains(container);
+}
+
+/**
+ * 判断加粗文本是否位于段落开头（「**小标题**：正文」或独占一段的「**小标题**」）
+ */
+function isParagraphLead(strong: HTMLElement): boolean {
+  const paragraph = strong.parentElement;
+  if (!paragraph) return false;
+
+  const text = normalizeText(strong.textContent);
+  return text.length > 1 &&
+         text.length <= MAX_LEAD_LENGTH &&
+         normalizeText(paragraph.textContent).startsWith(text);
+}
+
+/**
+ * 提取回答中的章节
+ * 有 h1–h3 标题时只使用标题；没有标题时才使用加粗的段落引导语，避免正文中的强调被当成章节
+ */
+export function extractAnswerSections(answerNode: HTMLElement | null): AnswerSection[] {
+  if (!answerNode) return [];
+
+  const headings = Array.from(answerNode.querySelectorAll<HTMLElement>('h1, h2, h3'))
+    .filter(node => !isIgnored(node, answerNode) && normalizeText(node.textContent));
+
+  if (headings.length > 0) {
+    return headings.slice(0, MAX_SECTIONS_PER_ANSWER).map(node => ({
+      level: parseInt(node.tagName.charAt(1), 10) as 1 | 2 | 3,
+      text: normalizeText(node.textContent),
+      node
+    }));
+  }
+
+  return Array.from(answerNode.querySelectorAll<HTMLElement>('p > strong:first-child, p > b:first-child'))
+    .filter(node => !isIgnored(node, answerNode) && isParagraphLead(node))
+    .slice(0, MAX_SECTIONS_PER_ANSWER)
+    .map(node => ({
+      level: 4 as const,
+      text: normalizeText(node.textContent),
+      node
+    }));
+}
@@ -1,6 +1,9 @@
-import type { PromptAnswerItem } from './answerIndexManager';
+import type { IndexChangeSet, PromptAnswerItem } from './answerIndexManager';
+import { isSameVariant, type TurnVariant } from '../siteAdapters/index';
 import { PinnedStore } from '../store/pinnedStore';
-import { FavoriteStore, type FavoriteConversation } from '../store/favoriteStore';
+import { navEvents, type NavEventMap } from '../eventBus';
+import { FavoriteStore, type FavoriteConversation, type FavoriteNodeRef } from '../store/favoriteStore';
+import { FavoriteArchiveStore, migrateArchiveLinkNodeIds } from '../store/favoriteArchiveStore';
 import { themes, resolveTheme, type ThemeMode, type TimelineTheme } from './themes';
 import { getTranslation, type Language } from '../../utils/i18n';
 import {
@@ -15,6 +18,9 @@ import {
   createConversationItem,
   createFavoritesModalFooter,
   createTopStarButton,
+  formatSourceCount,
+  getPromptDisplayText,
+  formatVariantLabel,
   getSiteIconUrl,
   handleFavoriteClick,
   openOptionsPage,
@@ -24,8 +30,8 @@ import {
   showConfirmDialog,
   showFavoritesModal,
   showInputDialog,
+  subscribeFavoritesEvents,
   syncPinnedToFavorites,
-  updateBottomStarsStyle,
   updateTopStarStyle,
   navigateToFavorite
 } from './rightSideTimelineNavigatorFavorites';
@@ -52,12 +58,28 @@ export class RightSideTimelinejump {
   private nodes: HTMLElement[] = [];
   private items: PromptAnswerItem[] = [];
   private activeIndex: number = 0;
-  private onClickCallback: ((index: number) => void) | null = null;
+
+  // 回答内章节子节点（只展开当前激活条目的章节）
+  private sectionNodes: HTMLElement[] = [];
+  private sectionNodesEnabled: boolean = false;
+  private activeSectionIndex: number = -1;
   private tooltip: HTMLElement;
 
   private resizeObserver: ResizeObserver | null = null;
   private conversationId: string | null = null;
   private pinnedNodes: Set<string> = new Set();
+  private pinnedVariants: Record<string, TurnVariant> = {};
+  private branchMarkers: HTMLElement[] = [];
+  // 正在生成回答的条目，其节点播放呼吸动画
+  private pendingItem: PromptAnswerItem | null = null;
+  private pendingNode: HTMLElement | null = null;
+  private pendingAnimation: Animation | null = null;
+  // "新回答已生成"提示及其对应的条目
+  private newAnswerButton: HTMLElement | null = null;
+  private newAnswerItem: PromptAnswerItem | null = null;
+  private lastMigrationKey: string = '';
+  // 事件总线上的订阅，销毁时取消
+  private unsubscribers: Array<() => void> = [];
 
   // 收藏功能相关
   private topStarButton: HTMLElement | null = null;
@@ -66,8 +88,11 @@ export class RightSideTimelinejump {
   private favoritesModalView: 'front' | 'back' | 'settings' = 'front';
   private isFavorited: boolean = false;
   private siteName: string = '';
+  private siteTitle: string | null = null;
+  private shareUrl: string | null = null;
   private currentLanguage: Language = 'auto';
   private currentUrl: string = '';
+  private favoritesContext: FavoritesContext | null = null;
 
   private contentHeight: number = 0;
   private slider: HTMLElement | null = null;
@@ -143,6 +168,12 @@ export class RightSideTimelinejump {
     this.createTopStarButton();
     this.createBottomStarsButton();
 
+    // 标记保存后更新节点样式；收藏和主题变化由收藏模块更新星星按钮和弹窗
+    this.unsubscribers = [
+      navEvents.on('pinChanged', this.handlePinChanged),
+      subscribeFavoritesEvents(this.getFavoritesContext())
+    ];
+
     this.createSlider();
     this.nodesWrapper.addEventListener('scroll', this.handleWrapperScroll, { passive: true });
 
@@ -202,11 +233,10 @@ export class RightSideTimelinejump {
     this.nodes.forEach((node, index) => {
       this.updateNodeStyle(node, index);
     });
+    this.updateSectionNodeStyles();
+    this.renderBranchMarkers();
 
-    // 更新星星按钮样式
-    this.updateTopStarStyle();
-    this.updateBottomStarsStyle();
-    void this.refreshFavoritesModalIfOpen();
+    navEvents.emit('themeChanged', { mode, theme: this.currentTheme });
   }
 
   /**
@@ -316,6 +346,95 @@ export class RightSideTimelinejump {
     }
   }
 
+  /**
+   * 当前对话的标记被保存（切换标记、迁移 ID 或清理临时对话）后，按保存的列表更新节点样式
+   */
+  private handlePinChanged = ({ conversationId, pinnedIds }: NavEventMap['pinChanged']): void => {
+    if (conversationId !== this.conversationId) return;
+
+    this.pinnedNodes = new Set(pinnedIds);
+    this.nodes.forEach((node, index) => {
+      this.updateNodeStyle(node, index);
+    });
+  };
+
+  /**
+   * 节点是否被标记（标记按节点的稳定 ID 保存）
+   */
+  private isNodePinned(index: number): boolean {
+    const item = this.items[index];
+    return !!item && this.pinnedNodes.has(item.id);
+  }
+
+  /**
+   * 记录（或清除）节点被标记时所在的版本
+   */
+  private async rememberPinnedVariant(index: number, pinned: boolean): Promise<void> {
+    const item = this.items[index];
+    if (!this.conversationId || !item) return;
+
+    const variant = pinned ? item.variant || null : null;
+    if (variant) {
+      this.pinnedVariants[item.id] = variant;
+    } else {
+      delete this.pinnedVariants[item.id];
+    }
+    await PinnedStore.savePinnedVariant(this.conversationId, item.id, variant);
+  }
+
+  /**
+   * 节点 tooltip 中的附加说明
+   * 当前显示的版本、标记时所在的版本（与当前不同时）以及回答引用的来源数量
+   */
+  private getTooltipNote(index: number): string {
+    const item = this.items[index];
+    if (!item) return '';
+
+    const lines: string[] = [];
+    if (item.variant) {
+      lines.push(formatVariantLabel(this.getFavoritesContext(), item.variant));
+    }
+
+    const pinnedVariant = this.isNodePinned(index) ? this.pinnedVariants[item.id] : undefined;
+    if (pinnedVariant && !isSameVariant(pinnedVariant, item.variant)) {
+      lines.push(this.t('variant.pinned')
+        .replace('{active}', String(pinnedVariant.active))
+        .replace('{count}', String(pinnedVariant.count)));
+    }
+
+    if (item.sourceCount) {
+      lines.push(formatSourceCount(this.getFavoritesContext(), item.sourceCount));
+    }
+    return lines.join(' · ');
+  }
+
+  /**
+   * 将旧版本按索引保存的标记、收藏和归档链接迁移为稳定 ID
+   * 需要当前页面的条目建立索引到 ID 的映射，因此在对话页面上按需执行
+   */
+  private async migrateLegacyNodeRefs(): Promise<void> {
+    const conversationId = this.conversationId;
+    if (!conversationId || this.items.length === 0) return;
+
+    // 条目数量不变时无需重复迁移（懒加载出更多条目后再迁移剩余部分）
+    const migrationKey = `${conversationId}:${this.items.length}`;
+    if (this.lastMigrationKey === migrationKey) return;
+    this.lastMigrationKey = migrationKey;
+
+    const ids = this.items.map(item => item.id);
+
+    if (PinnedStore.migrateIndexKeys(this.pinnedNodes, ids)) {
+      await PinnedStore.savePinned(conversationId, this.pinnedNodes);
+    }
+
+    await FavoriteStore.migrateNodeIds(conversationId, ids);
+
+    const archiveState = await FavoriteArchiveStore.load();
+    if (migrateArchiveLinkNodeIds(archiveState, conversationId, ids)) {
+      await FavoriteArchiveStore.save(archiveState);
+    }
+  }
+
   /**
    * 设置当前对话 ID 并加载标记状态
    */
@@ -323,6 +442,8 @@ export class RightSideTimelinejump {
     this.conversationId = id;
     this.currentUrl = window.location.href;
     this.pinnedNodes = await PinnedStore.loadPinned(id);
+    this.pinnedVariants = await PinnedStore.loadPinnedVariants(id);
+    await this.migrateLegacyNodeRefs();
 
     // 检查是否已收藏，或者有被标记的节点（自动点亮）
     const isExplicitlyFavorited = await FavoriteStore.isFavorited(id);
@@ -341,6 +462,10 @@ export class RightSideTimelinejump {
     this.nodes.forEach((node, index) => {
       this.updateNodeStyle(node, index);
     });
+
+    if (this.siteTitle) {
+      await FavoriteStore.syncSiteTitle(id, this.siteTitle);
+    }
   }
 
   /**
@@ -350,6 +475,26 @@ export class RightSideTimelinejump {
     this.siteName = name;
   }
 
+  /**
+   * 设置只读分享页的链接（不是分享页时为 null），收藏时随对话保存
+   */
+  setShareUrl(url: string | null): void {
+    this.shareUrl = url;
+  }
+
+  /**
+   * 设置站点显示的对话标题
+   * 标题变化时（站点重命名对话）同步到已收藏的对话，用户手动改过的标题除外
+   */
+  async setConversationTitle(title: string | null): Promise<void> {
+    if (title === this.siteTitle) return;
+    this.siteTitle = title;
+
+    if (title && this.conversationId) {
+      await FavoriteStore.syncSiteTitle(this.conversationId, title);
+    }
+  }
+
   /**
    * 设置当前语言
    */
@@ -369,8 +514,57 @@ export class RightSideTimelinejump {
     return getTranslation(key, this.currentLanguage);
   }
 
+  /**
+   * 收藏模块使用的上下文：读写时间线上的收藏状态，并调用时间线的方法
+   */
   private getFavoritesContext(): FavoritesContext {
-    return this as unknown as FavoritesContext;
+    if (this.favoritesContext) return this.favoritesContext;
+
+    const timeline = this;
+    const ctx: FavoritesContext = {
+      get container() { return timeline.container; },
+      get topStarButton() { return timeline.topStarButton; },
+      set topStarButton(button: HTMLElement | null) { timeline.topStarButton = button; },
+      get bottomStarsButton() { return timeline.bottomStarsButton; },
+      set bottomStarsButton(button: HTMLElement | null) { timeline.bottomStarsButton = button; },
+      get favoritesModal() { return timeline.favoritesModal; },
+      set favoritesModal(modal: HTMLElement | null) { timeline.favoritesModal = modal; },
+      get favoritesModalView() { return timeline.favoritesModalView; },
+      set favoritesModalView(view: 'front' | 'back' | 'settings') { timeline.favoritesModalView = view; },
+      get isFavorited() { return timeline.isFavorited; },
+      set isFavorited(favorited: boolean) { timeline.isFavorited = favorited; },
+      get siteName() { return timeline.siteName; },
+      get siteTitle() { return timeline.siteTitle; },
+      get shareUrl() { return timeline.shareUrl; },
+      get currentUrl() { return timeline.currentUrl; },
+      set currentUrl(url: string) { timeline.currentUrl = url; },
+      get conversationId() { return timeline.conversationId; },
+      get pinnedNodes() { return timeline.pinnedNodes; },
+      get pinnedVariants() { return timeline.pinnedVariants; },
+      get items() { return timeline.items; },
+      get currentTheme() { return timeline.currentTheme; },
+      get tutorialStep() { return timeline.tutorialStep; },
+      get currentLanguage() { return timeline.currentLanguage; },
+      t: (key) => this.t(key),
+      updateTopStarStyle: () => this.updateTopStarStyle(),
+      handleFavoriteClick: () => this.handleFavoriteClick(),
+      playStarBounceAnimation: () => this.playStarBounceAnimation(),
+      syncPinnedToFavorites: () => this.syncPinnedToFavorites(),
+      showFavoritesModal: (initialView) => this.showFavoritesModal(initialView),
+      createConversationItem: (conv) => this.createConversationItem(conv),
+      createFavoritesModalFooter: (side) => this.createFavoritesModalFooter(side),
+      openOptionsPage: () => this.openOptionsPage(),
+      showConfirmDialog: (message) => this.showConfirmDialog(message),
+      showInputDialog: (title, defaultValue, placeholder) => this.showInputDialog(title, defaultValue, placeholder),
+      navigateToFavorite: (conv, target) => this.navigateToFavorite(conv, target),
+      closeFavoritesModal: () => this.closeFavoritesModal(),
+      removeFavoritesModalElements: () => this.removeFavoritesModalElements(),
+      getSiteIconUrl: (siteName) => this.getSiteIconUrl(siteName),
+      maybeContinueTutorialAfterFavoritesModalOpened: () => this.maybeContinueTutorialAfterFavoritesModalOpened(),
+      endTutorial: () => this.endTutorial()
+    };
+    this.favoritesContext = ctx;
+    return ctx;
   }
 
   private getTutorialContext(): TutorialContext {
@@ -391,13 +585,6 @@ export class RightSideTimelinejump {
     createBottomStarsButton(this.getFavoritesContext());
   }
 
-  /**
-   * 更新底部三星样式（主题变化时调用）
-   */
-  private updateBottomStarsStyle(): void {
-    updateBottomStarsStyle(this.getFavoritesContext());
-  }
-
   /**
    * 处理收藏按钮点击
    */
@@ -459,8 +646,8 @@ export class RightSideTimelinejump {
   /**
    * 跳转到收藏的对话
    */
-  private navigateToFavorite(conv: FavoriteConversation, nodeIndex: number): void {
-    navigateToFavorite(this.getFavoritesContext(), conv, nodeIndex);
+  private navigateToFavorite(conv: FavoriteConversation, target: FavoriteNodeRef): void {
+    navigateToFavorite(this.getFavoritesContext(), conv, target);
   }
 
   /**
@@ -644,10 +831,9 @@ export class RightSideTimelinejump {
   /**
    * 显示 tooltip
    */
-  private showTooltip(text: string, nodeElement: HTMLElement): void {
+  private showTooltip(text: string, nodeElement: HTMLElement, note: string = ''): void {
     // 检查是否被标记
-    const index = nodeElement.dataset.index;
-    const isPinned = index && this.pinnedNodes.has(index);
+    const isPinned = this.isNodePinned(parseInt(nodeElement.dataset.index || '-1', 10));
 
     // 截断文本（最多 50 字符）
     const displayText = this.truncateTooltipText(text, 50);
@@ -662,6 +848,14 @@ export class RightSideTimelinejump {
     } else {
       this.tooltip.textContent = displayText;
     }
+
+    // 附加说明（例如版本信息）单独一行显示
+    if (note) {
+      const noteLine = document.createElement('div');
+      noteLine.textContent = note;
+      Object.assign(noteLine.style, { fontSize: '11px', opacity: '0.7', marginTop: '2px' });
+      this.tooltip.appendChild(noteLine);
+    }
     this.tooltip.style.visibility = 'visible';
 
     // 计算位置（显示在节点左侧）
@@ -714,7 +908,7 @@ export class RightSideTimelinejump {
    */
   private updateNodeStyle(node: HTMLElement, index: number) {
     const isActive = index === this.activeIndex;
-    const isPinned = this.pinnedNodes.has(String(index));
+    const isPinned = this.isNodePinned(index);
     const themeTypeFlag = this.currentTheme.themeType;
 
     // 首先彻底清理节点的所有特殊样式和元素
@@ -903,6 +1097,8 @@ export class RightSideTimelinejump {
     const node = document.createElement('div');
     node.className = 'timeline-node';
     node.dataset.index = String(index);
+    // 条目增删后节点会被复用并重新编号，事件处理中始终读取当前的索引
+    const getIndex = () => parseInt(node.dataset.index || '0');
 
     // 初始样式
     Object.assign(node.style, {
@@ -945,7 +1141,7 @@ export class RightSideTimelinejump {
       isLongPress = false;
 
       // 判断是标记还是取消标记，设置不同的填充色
-      const isAlreadyPinned = this.pinnedNodes.has(String(index));
+      const isAlreadyPinned = this.isNodePinned(getIndex());
       if (isAlreadyPinned) {
         // 取消标记：使用灰色/白色填充，表示"擦除"
         fillLayer.style.backgroundColor = '#E0E0E0';
@@ -961,17 +1157,11 @@ export class RightSideTimelinejump {
       pressTimer = setTimeout(async () => {
         isLongPress = true;
 
-        if (this.conversationId) {
-          const nodeId = String(index);
+        const nodeId = this.items[getIndex()]?.id;
+        if (this.conversationId && nodeId) {
+          // 保存后通过 pinChanged 更新节点样式
           const newPinnedState = await PinnedStore.togglePinned(this.conversationId, nodeId);
-
-          if (newPinnedState) {
-            this.pinnedNodes.add(nodeId);
-          } else {
-            this.pinnedNodes.delete(nodeId);
-          }
-
-          this.updateNodeStyle(node, index);
+          await this.rememberPinnedVariant(getIndex(), newPinnedState);
 
           // 同步到收藏
           this.syncPinnedToFavorites();
@@ -1011,19 +1201,20 @@ export class RightSideTimelinejump {
     // 鼠标悬浮效果 + 显示 tooltip
     node.addEventListener('mouseenter', () => {
       // 悬浮放大效果仅在非 active 时应用
+      const index = getIndex();
       if (index !== this.activeIndex) {
         node.style.transform = 'translate(-50%, -50%) scale(1.2)';
       }
 
       // 显示 tooltip
       if (this.items[index]) {
-        this.showTooltip(this.items[index].promptText, node);
+        this.showTooltip(getPromptDisplayText(this.getFavoritesContext(), this.items[index]), node, this.getTooltipNote(index));
       }
     });
 
     node.addEventListener('mouseleave', () => {
       // 恢复样式
-      this.updateNodeStyle(node, index);
+      this.updateNodeStyle(node, getIndex());
 
       // 隐藏 tooltip
       this.hideTooltip();
@@ -1038,10 +1229,7 @@ export class RightSideTimelinejump {
         return;
       }
 
-      const clickedIndex = parseInt(node.dataset.index || '0');
-      if (this.onClickCallback) {
-        this.onClickCallback(clickedIndex);
-      }
+      navEvents.emit('nodeClicked', { index: getIndex() });
     });
 
     return node;
@@ -1061,6 +1249,10 @@ export class RightSideTimelinejump {
       // 清空节点
       this.nodes.forEach(node => node.remove());
       this.nodes = [];
+      this.branchMarkers.forEach(marker => marker.remove());
+      this.branchMarkers = [];
+      this.sectionNodes.forEach(node => node.remove());
+      this.sectionNodes = [];
       this.nodesWrapper.scrollTop = 0;
       this.nodesContent.style.height = '100%';
       this.contentHeight = 0;
@@ -1085,28 +1277,206 @@ export class RightSideTimelinejump {
         this.updateNodeStyle(this.nodes[index], index);
       } else {
         // 创建新节点
-        const node = this.createNode(item, index);
+        this.nodes.push(this.appendNode(item, index));
+      }
+    });
+
+    // 3. 计算并更新所有节点位置（利用 CSS transition 实现平滑移动）
+    this.updateNodePositions();
+    this.updatePendingAnimation();
+    this.maybeStartTutorial();
+  }
+
+  /**
+   * 创建节点并以淡入动画加入时间线
+   */
+  private appendNode(item: PromptAnswerItem, index: number): HTMLElement {
+    const node = this.createNode(item, index);
 
-        // 新节点初始状态：透明、微缩
+    // 新节点初始状态：透明、微缩
+    node.style.opacity = '0';
+    node.style.transform = 'translate(-50%, -50%) scale(0)';
+
+    this.nodesContent.appendChild(node);
+
+    // 下一帧显示，触发过渡动画
+    requestAnimationFrame(() => {
+      node.style.opacity = '1';
+      this.updateNodeStyle(node, parseInt(node.dataset.index || '0')); // 恢复正常样式和变换
+    });
+    return node;
+  }
+
+  /**
+   * 按索引管理器给出的变化集更新时间线，不重建已有节点
+   * 保留的条目沿用原节点（仅在索引或内容变化时更新样式），被移除的条目节点淡出
+   * @param items - 刷新后的全部条目
+   */
+  applyChanges(items: PromptAnswerItem[], changes: IndexChangeSet): void {
+    // 还没有节点或条目被清空时，走完整初始化
+    if (this.nodes.length === 0 || items.length === 0) {
+      this.init(items);
+      return;
+    }
+
+    // 先在内存中迁移标记，下面更新节点样式时即可按新 ID 显示
+    const pinsRemapped = PinnedStore.remapNodeIds(this.pinnedNodes, this.pinnedVariants, changes.idChanges);
+
+    const removed = new Set(changes.removed);
+    const updated = new Set(changes.updated);
+    const nodeByItem = new Map<PromptAnswerItem, HTMLElement>();
+
+    this.items.forEach((item, index) => {
+      const node = this.nodes[index];
+      if (!node) return;
+      if (removed.has(item)) {
+        node.style.pointerEvents = 'none';
         node.style.opacity = '0';
         node.style.transform = 'translate(-50%, -50%) scale(0)';
+        setTimeout(() => node.remove(), 200);
+      } else {
+        nodeByItem.set(item, node);
+      }
+    });
 
-        this.nodesContent.appendChild(node);
-        this.nodes.push(node);
-
-        // 下一帧显示，触发过渡动画
-        requestAnimationFrame(() => {
-          node.style.opacity = '1';
-          this.updateNodeStyle(node, index); // 恢复正常样式和变换
-        });
+    this.items = items;
+    this.nodes = items.map((item, index) => {
+      const node = nodeByItem.get(item);
+      if (!node) {
+        return this.appendNode(item, index);
       }
+      if (node.dataset.index !== String(index) || updated.has(item)) {
+        node.dataset.index = String(index);
+        this.updateNodeStyle(node, index);
+      }
+      return node;
     });
 
-    // 3. 计算并更新所有节点位置（利用 CSS transition 实现平滑移动）
+    if (this.activeIndex >= items.length) {
+      this.activeIndex = items.length - 1;
+    }
+    if (this.newAnswerItem && removed.has(this.newAnswerItem)) {
+      this.hideNewAnswerReady();
+    }
+
     this.updateNodePositions();
+    this.updatePendingAnimation();
+    void this.persistPinnedChanges(changes, pinsRemapped);
+    if (changes.added.length > 0) {
+      // 懒加载出的更早条目可能还有旧版本按索引保存的数据
+      void this.migrateLegacyNodeRefs();
+    }
     this.maybeStartTutorial();
   }
 
+  /**
+   * 标记正在生成回答的条目，传入 null 表示生成结束
+   */
+  setPendingItem(item: PromptAnswerItem | null): void {
+    this.pendingItem = item;
+    this.updatePendingAnimation();
+  }
+
+  /**
+   * 为正在生成回答的节点播放呼吸动画（节点被重建后重新绑定）
+   */
+  private updatePendingAnimation(): void {
+    const index = this.pendingItem ? this.items.indexOf(this.pendingItem) : -1;
+    const node = this.nodes[index] || null;
+    if (node === this.pendingNode) return;
+
+    if (this.pendingAnimation) {
+      this.pendingAnimation.cancel();
+      this.pendingAnimation = null;
+    }
+    this.pendingNode = node;
+    if (node) {
+      this.pendingAnimation = node.animate(
+        [{ opacity: 1 }, { opacity: 0.35 }, { opacity: 1 }],
+        { duration: 1200, iterations: Infinity, easing: 'ease-in-out' }
+      );
+    }
+  }
+
+  /**
+   * 显示"新回答已生成"提示（用户向上翻阅时生成结束），点击后跳转到该条目
+   */
+  showNewAnswerReady(item: PromptAnswerItem): void {
+    if (!this.newAnswerButton) {
+      this.newAnswerButton = this.createNewAnswerButton();
+    }
+    this.newAnswerItem = item;
+    this.newAnswerButton.textContent = this.t('timeline.newAnswer');
+    this.newAnswerButton.style.backgroundColor = this.currentTheme.activeColor;
+    this.newAnswerButton.style.boxShadow = `0 2px 8px ${this.currentTheme.activeShadow}`;
+    this.newAnswerButton.style.display = 'block';
+  }
+
+  /**
+   * 隐藏"新回答已生成"提示
+   */
+  hideNewAnswerReady(): void {
+    this.newAnswerItem = null;
+    if (this.newAnswerButton) {
+      this.newAnswerButton.style.display = 'none';
+    }
+  }
+
+  private createNewAnswerButton(): HTMLElement {
+    const button = document.createElement('div');
+    button.className = 'timeline-new-answer';
+    Object.assign(button.style, {
+      position: 'absolute',
+      right: '0',
+      bottom: '-70px',
+      display: 'none',
+      padding: '4px 10px',
+      borderRadius: '999px',
+      whiteSpace: 'nowrap',
+      fontSize: '12px',
+      lineHeight: '18px',
+      color: '#fff',
+      cursor: 'pointer',
+      zIndex: '10'
+    });
+
+    button.addEventListener('click', () => {
+      const index = this.newAnswerItem ? this.items.indexOf(this.newAnswerItem) : -1;
+      this.hideNewAnswerReady();
+      if (index !== -1) {
+        navEvents.emit('nodeClicked', { index });
+      }
+    });
+
+    this.container.appendChild(button);
+    return button;
+  }
+
+  /**
+   * 保存迁移后的标记；被标记条目的内容变化或标记迁移后，同步收藏中的子项
+   */
+  private async persistPinnedChanges(changes: IndexChangeSet, pinsRemapped: boolean): Promise<void> {
+    const conversationId = this.conversationId;
+    if (!conversationId) return;
+
+    if (pinsRemapped) {
+      await PinnedStore.savePinned(conversationId, this.pinnedNodes);
+      await PinnedStore.savePinnedVariants(conversationId, this.pinnedVariants);
+    }
+    if (changes.idChanges.size > 0) {
+      // 收藏项和归档链接同样按节点 ID 引用，随标记一起改指新 ID
+      const ids = this.items.map(item => item.id);
+      await FavoriteStore.migrateNodeIds(conversationId, ids, changes.idChanges);
+      const archiveState = await FavoriteArchiveStore.load();
+      if (migrateArchiveLinkNodeIds(archiveState, conversationId, ids, changes.idChanges)) {
+        await FavoriteArchiveStore.save(archiveState);
+      }
+    }
+    if (pinsRemapped || changes.updated.some(item => this.pinnedNodes.has(item.id))) {
+      await this.syncPinnedToFavorites();
+    }
+  }
+
   /**
    * 更新所有节点的位置
    * 采用"等间距分布"策略 (Even Distribution)：
@@ -1131,6 +1501,9 @@ export class RightSideTimelinejump {
       const padding = 30; // 上下留白
       const usableHeight = containerHeight - padding * 2;
 
+      // 最后一个条目展开章节时，在底部多留一个间隔放置子节点
+      const trailingSlot = this.hasExpandedSections(count - 1) ? 1 : 0;
+
       this.items.forEach((item, index) => {
         const node = this.nodes[index];
         if (!node) return;
@@ -1145,18 +1518,154 @@ export class RightSideTimelinejump {
           // 公式：Padding + (当前索引 / (总数 - 1)) * 可用高度
           // index=0 -> 0% (Top)
           // index=max -> 100% (Bottom)
-          const ratio = index / (count - 1);
+          const ratio = index / (count - 1 + trailingSlot);
           topPosition = padding + ratio * usableHeight;
         }
 
         node.style.top = `${topPosition}px`;
       });
+
+      this.renderBranchMarkers();
+      this.renderSectionNodes();
     } finally {
       // 确保标志位被重置
       this.isUpdatingPositions = false;
     }
   }
 
+  /**
+   * 渲染分支标记：存在多个版本（编辑过提问或重新生成过回答）的条目在节点右上角显示小菱形
+   */
+  private renderBranchMarkers(): void {
+    this.branchMarkers.forEach(marker => marker.remove());
+    this.branchMarkers = [];
+
+    this.items.forEach((item, index) => {
+      const node = this.nodes[index];
+      if (!item.variant || !node) return;
+
+      const marker = document.createElement('div');
+      marker.className = 'timeline-branch-marker';
+      Object.assign(marker.style, {
+        position: 'absolute',
+        left: 'calc(50% + 7px)',
+        top: `${parseFloat(node.style.top || '0') - 7}px`,
+        width: '5px',
+        height: '5px',
+        transform: 'rotate(45deg)',
+        backgroundColor: item.variant.edited ? this.currentTheme.pinnedColor : this.currentTheme.activeColor,
+        pointerEvents: 'none',
+        transition: 'top 0.2s ease',
+        zIndex: '3'
+      });
+
+      this.nodesContent.appendChild(marker);
+      this.branchMarkers.push(marker);
+    });
+  }
+
+  /**
+   * 指定条目是否展开了章节子节点
+   */
+  private hasExpandedSections(index: number): boolean {
+    return this.sectionNodesEnabled &&
+           index === this.activeIndex &&
+           (this.items[index]?.sections?.length || 0) > 0;
+  }
+
+  /**
+   * 渲染当前激活条目的章节子节点
+   * 子节点均匀分布在该条目与下一个条目之间
+   */
+  private renderSectionNodes(): void {
+    this.sectionNodes.forEach(node => node.remove());
+    this.sectionNodes = [];
+
+    const itemIndex = this.activeIndex;
+    if (!this.hasExpandedSections(itemIndex)) return;
+
+    const parentNode = this.nodes[itemIndex];
+    if (!parentNode) return;
+
+    const sections = this.items[itemIndex].sections || [];
+    const startTop = parseFloat(parentNode.style.top || '0');
+    const nextNode = this.nodes[itemIndex + 1];
+    const endTop = nextNode
+      ? parseFloat(nextNode.style.top || '0')
+      : this.container.clientHeight - this.NODE_PADDING;
+    const step = (endTop - startTop) / (sections.length + 1);
+
+    sections.forEach((section, sectionIndex) => {
+      const sectionNode = document.createElement('div');
+      sectionNode.className = 'timeline-section-node';
+      const size = section.level <= 2 ? 6 : 5;
+
+      Object.assign(sectionNode.style, {
+        position: 'absolute',
+        left: '50%',
+        top: `${startTop + step * (sectionIndex + 1)}px`,
+        width: `${size}px`,
+        height: `${size}px`,
+        borderRadius: '50%',
+        cursor: 'pointer',
+        transform: 'translate(-50%, -50%)',
+        pointerEvents: 'auto',
+        transition: 'all 0.2s ease',
+        zIndex: '2'
+      });
+
+      sectionNode.addEventListener('mouseenter', () => {
+        sectionNode.style.transform = 'translate(-50%, -50%) scale(1.5)';
+        this.showTooltip(section.text, sectionNode);
+      });
+
+      sectionNode.addEventListener('mouseleave', () => {
+        sectionNode.style.transform = 'translate(-50%, -50%)';
+        this.hideTooltip();
+      });
+
+      sectionNode.addEventListener('click', (e) => {
+        e.stopPropagation();
+        navEvents.emit('sectionClicked', { itemIndex, sectionIndex });
+      });
+
+      this.nodesContent.appendChild(sectionNode);
+      this.sectionNodes.push(sectionNode);
+    });
+
+    this.updateSectionNodeStyles();
+  }
+
+  /**
+   * 更新章节子节点的激活样式
+   */
+  private updateSectionNodeStyles(): void {
+    this.sectionNodes.forEach((node, index) => {
+      const isActive = index === this.activeSectionIndex;
+      node.style.backgroundColor = isActive ? this.currentTheme.activeColor : this.currentTheme.defaultNodeColor;
+      node.style.opacity = isActive ? '1' : '0.6';
+      node.style.boxShadow = isActive ? `0 0 6px ${this.currentTheme.activeShadow}` : 'none';
+    });
+  }
+
+  /**
+   * 开启或关闭章节子节点显示
+   */
+  setSectionNodesEnabled(enabled: boolean): void {
+    if (this.sectionNodesEnabled === enabled) return;
+    this.sectionNodesEnabled = enabled;
+    this.updateNodePositions();
+  }
+
+  /**
+   * 更新当前激活的章节（-1 表示还没读到第一个章节）
+   */
+  updateActiveSection(sectionIndex: number): void {
+    if (this.activeSectionIndex === sectionIndex) return;
+    this.activeSectionIndex = sectionIndex;
+    this.updateSectionNodeStyles();
+  }
+
   /**
    * 刷新节点位置（当窗口 resize 或内容变化时调用）
    */
@@ -1200,6 +1709,8 @@ export class RightSideTimelinejump {
       return;
     }
 
+    const indexChanged = this.activeIndex !== index;
+
     // 重置之前的 active 节点
     if (this.activeIndex >= 0 && this.activeIndex < this.nodes.length) {
       const oldIndex = this.activeIndex;
@@ -1211,14 +1722,18 @@ export class RightSideTimelinejump {
     // 设置新的 active 节点
     this.activeIndex = index;
     this.updateNodeStyle(this.nodes[index], index);
-    this.ensureActiveNodeVisible();
-  }
 
-  /**
-   * 注册节点点击回调
-   */
-  onNodeClick(callback: (itemIndex: number) => void): void {
-    this.onClickCallback = callback;
+    // 已经读到新生成的回答，不再需要提示
+    if (this.newAnswerItem && this.items[index] === this.newAnswerItem) {
+      this.hideNewAnswerReady();
+    }
+
+    // 切换条目时重新展开对应的章节子节点
+    if (this.sectionNodesEnabled && indexChanged) {
+      this.activeSectionIndex = -1;
+      this.updateNodePositions();
+    }
+    this.ensureActiveNodeVisible();
   }
 
   /**
@@ -1255,19 +1770,12 @@ export class RightSideTimelinejump {
     }
 
     const index = this.activeIndex;
-    const nodeId = String(index);
+    const nodeId = this.items[index]?.id;
+    if (!nodeId) return;
 
-    // 调用 Store 更新状态
+    // 调用 Store 更新状态，保存后通过 pinChanged 更新节点样式
     const newPinnedState = await PinnedStore.togglePinned(this.conversationId, nodeId);
-
-    if (newPinnedState) {
-      this.pinnedNodes.add(nodeId);
-    } else {
-      this.pinnedNodes.delete(nodeId);
-    }
-
-    // 更新样式
-    this.updateNodeStyle(this.nodes[index], index);
+    await this.rememberPinnedVariant(index, newPinnedState);
 
     // 同步到收藏
     this.syncPinnedToFavorites();
@@ -1283,6 +1791,8 @@ export class RightSideTimelinejump {
    */
   destroy(): void {
     this.endTutorial();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
     }
@@ -1,5 +1,12 @@
 import type { PromptAnswerItem } from './answerIndexManager';
-import { FavoriteStore, type FavoriteConversation } from '../store/favoriteStore';
+import type { PromptSummary, TurnVariant } from '../siteAdapters/index';
+import {
+  FavoriteStore,
+  resolveFavoriteNodeIndex,
+  type FavoriteConversation,
+  type FavoriteNodeRef,
+  type FavoritePinnedItem
+} from '../store/favoriteStore';
 import {
   FavoriteArchiveStore,
   addArchiveLinkToFolder,
@@ -18,6 +25,14 @@ import {
 import { ChristmasThemeEffects, SciFiThemeEffects } from './themeEffects';
 import type { TimelineTheme } from './themes';
 import type { Language } from '../../utils/i18n';
+import {
+  CUSTOM_SITE_RULES_KEY,
+  normalizeRulesMap,
+  type CustomSiteRulesMap
+} from '../../utils/customSiteRules';
+import { createRulesEditor } from '../../utils/rulesEditor';
+import { startRuleElementPicker } from '../picker/ruleElementPicker';
+import { navEvents } from '../eventBus';
 
 type FavoritesModalView = 'front' | 'back' | 'settings';
 
@@ -29,13 +44,17 @@ export type FavoritesContext = {
   favoritesModalView: FavoritesModalView;
   isFavorited: boolean;
   siteName: string;
+  siteTitle: string | null;
+  /** 只读分享页的链接，不是分享页时为 null */
+  shareUrl: string | null;
   currentUrl: string;
   conversationId: string | null;
   pinnedNodes: Set<string>;
+  pinnedVariants: Record<string, TurnVariant>;
   items: PromptAnswerItem[];
   currentTheme: TimelineTheme;
-  onClickCallback: ((index: number) => void) | null;
   tutorialStep: 0 | 1 | 2 | 3 | 4 | 5;
+  currentLanguage: Language;
   t: (key: string) => string;
   updateTopStarStyle: () => void;
   handleFavoriteClick: () => Promise<void>;
@@ -47,7 +66,7 @@ export type FavoritesContext = {
   openOptionsPage: () => void;
   showConfirmDialog: (message: string) => Promise<boolean>;
   showInputDialog: (title: string, defaultValue: string, placeholder: string) => Promise<string | null>;
-  navigateToFavorite: (conv: FavoriteConversation, nodeIndex: number) => void;
+  navigateToFavorite: (conv: FavoriteConversation, target: FavoriteNodeRef) => void;
   closeFavoritesModal: () => void;
   removeFavoritesModalElements: () => void;
   getSiteIconUrl: (siteName: string) => string;
@@ -55,6 +74,26 @@ export type FavoritesContext = {
   endTutorial: () => void;
 };
 
+/**
+ * 订阅收藏和主题变化：收藏列表保存后按列表更新当前对话的收藏状态，主题变化后重绘星星按钮和已打开的弹窗
+ * @returns 取消订阅的函数
+ */
+export function subscribeFavoritesEvents(ctx: FavoritesContext): () => void {
+  const unsubscribers = [
+    navEvents.on('favoriteChanged', ({ favorites }) => {
+      if (!ctx.conversationId) return;
+      ctx.isFavorited = favorites.some(conv => conv.conversationId === ctx.conversationId);
+      updateTopStarStyle(ctx);
+    }),
+    navEvents.on('themeChanged', () => {
+      updateTopStarStyle(ctx);
+      updateBottomStarsStyle(ctx);
+      void refreshFavoritesModalIfOpen(ctx);
+    })
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
 /**
  * 创建顶部单星按钮（收藏当前对话）
  */
@@ -189,6 +228,103 @@ export function updateBottomStarsStyle(ctx: FavoritesContext): void {
   }
 }
 
+/**
+ * 收集当前页面上被标记的节点（按稳定 ID 匹配，找不到的节点忽略）
+ */
+function collectPinnedItems(ctx: FavoritesContext): FavoritePinnedItem[] {
+  const pinnedItems: FavoritePinnedItem[] = [];
+
+  ctx.items.forEach((item, index) => {
+    if (ctx.pinnedNodes.has(item.id)) {
+      // 优先使用标记时记录的版本，而不是当前显示的版本
+      pinnedItems.push(toFavoritePinnedItem(item, index, ctx.pinnedVariants[item.id] || item.variant));
+    }
+  });
+
+  return pinnedItems;
+}
+
+/**
+ * 把时间线条目转换为收藏节点信息
+ */
+function toFavoritePinnedItem(item: PromptAnswerItem, index: number, variant?: TurnVariant): FavoritePinnedItem {
+  return {
+    index,
+    id: item.id,
+    promptText: item.promptText,
+    ...(variant ? { variant } : {}),
+    ...(item.sourceCount ? { sourceCount: item.sourceCount } : {}),
+    ...(item.promptSummary ? { summary: item.promptSummary } : {})
+  };
+}
+
+/**
+ * 按界面语言格式化提问摘要，例如「帮我看看这份报告 [文件: report.pdf] [代码: python]」
+ */
+export function formatPromptSummary(ctx: Pick<FavoritesContext, 't'>, summary: PromptSummary): string {
+  const parts: string[] = [];
+
+  if (summary.text) {
+    parts.push(summary.truncated ? `${summary.text}${ctx.t('summary.truncated')}` : summary.text);
+  }
+  if (summary.imageCount > 0) {
+    parts.push(summary.imageCount === 1
+      ? ctx.t('summary.image')
+      : ctx.t('summary.images').replace('{count}', String(summary.imageCount)));
+  }
+  summary.attachments.forEach(attachment => {
+    parts.push(attachment.name
+      ? ctx.t('summary.file').replace('{name}', attachment.name)
+      : ctx.t('summary.fileUnnamed'));
+  });
+  if (summary.codeBlockCount > 0) {
+    parts.push(summary.codeLanguages.length > 0
+      ? ctx.t('summary.code').replace('{languages}', summary.codeLanguages.join(', '))
+      : ctx.t('summary.codeBlock'));
+  }
+  if (summary.hasChart) {
+    parts.push(ctx.t('summary.chart'));
+  }
+
+  return parts.length > 0 ? parts.join(' ') : ctx.t('summary.empty');
+}
+
+/**
+ * 获取提问的显示文本：有结构化摘要时按界面语言格式化，否则使用保存的文本（旧数据）
+ */
+export function getPromptDisplayText(
+  ctx: Pick<FavoritesContext, 't'>,
+  item: { promptText: string; promptSummary?: PromptSummary; summary?: PromptSummary }
+): string {
+  const summary = item.promptSummary || item.summary;
+  return summary ? formatPromptSummary(ctx, summary) : item.promptText;
+}
+
+/**
+ * 格式化版本信息，例如「版本 2/3（已编辑）」
+ */
+export function formatVariantLabel(ctx: Pick<FavoritesContext, 't'>, variant: TurnVariant): string {
+  const label = ctx.t('variant.label')
+    .replace('{active}', String(variant.active))
+    .replace('{count}', String(variant.count));
+  return variant.edited ? `${label} ${ctx.t('variant.edited')}` : label;
+}
+
+/**
+ * 格式化来源数量，例如「12 个来源」
+ */
+export function formatSourceCount(ctx: Pick<FavoritesContext, 't'>, count: number): string {
+  return count === 1 ? ctx.t('sources.one') : ctx.t('sources.count').replace('{count}', String(count));
+}
+
+/**
+ * 获取收藏用的对话标题：优先使用站点显示的标题，否则使用第一个问题的文本
+ */
+function getFavoriteChatTitle(ctx: FavoritesContext): string {
+  if (ctx.siteTitle) return ctx.siteTitle;
+  return ctx.items.length > 0 ? getPromptDisplayText(ctx, ctx.items[0]) : ctx.t('favorites.unnamed');
+}
+
 /**
  * 处理收藏按钮点击
  */
@@ -198,47 +334,31 @@ export async function handleFavoriteClick(ctx: FavoritesContext): Promise<void>
   ctx.currentUrl = window.location.href;
 
   if (ctx.isFavorited) {
-    // 取消收藏
+    // 取消收藏（保存后通过 favoriteChanged 更新星星状态）
     await FavoriteStore.unfavoriteConversation(ctx.conversationId);
-    ctx.isFavorited = false;
   } else {
     // 收藏当前对话
     // 收集所有被标记的节点
-    const pinnedItems: Array<{ index: number; promptText: string }> = [];
-
-    ctx.pinnedNodes.forEach(nodeId => {
-      const index = parseInt(nodeId);
-      if (ctx.items[index]) {
-        pinnedItems.push({
-          index,
-          promptText: ctx.items[index].promptText
-        });
-      }
-    });
+    const pinnedItems = collectPinnedItems(ctx);
 
     // 如果没有标记的节点，收藏整个对话（使用第一个节点作为代表）
     if (pinnedItems.length === 0 && ctx.items.length > 0) {
-      pinnedItems.push({
-        index: 0,
-        promptText: ctx.items[0].promptText
-      });
+      pinnedItems.push(toFavoritePinnedItem(ctx.items[0], 0));
     }
 
-    // 获取整个对话的标题（使用第一个问题的文本）
-    const chatTitle = ctx.items.length > 0 ? ctx.items[0].promptText : ctx.t('favorites.unnamed');
+    // 获取整个对话的标题
+    const chatTitle = getFavoriteChatTitle(ctx);
 
     await FavoriteStore.favoriteConversation(
       ctx.conversationId,
       ctx.currentUrl,
       ctx.siteName || 'Unknown',
       chatTitle,
-      pinnedItems
+      pinnedItems,
+      ctx.shareUrl
     );
-    ctx.isFavorited = true;
   }
 
-  ctx.updateTopStarStyle();
-
   // 添加跳跃动画反馈
   ctx.playStarBounceAnimation();
 }
@@ -281,32 +401,21 @@ export async function syncPinnedToFavorites(ctx: FavoritesContext): Promise<void
   if (!ctx.conversationId) return;
 
   // 收集当前所有被标记的节点
-  const pinnedItems: Array<{ index: number; promptText: string }> = [];
-
-  ctx.pinnedNodes.forEach(nodeId => {
-    const index = parseInt(nodeId);
-    if (ctx.items[index]) {
-      pinnedItems.push({
-        index,
-        promptText: ctx.items[index].promptText
-      });
-    }
-  });
+  const pinnedItems = collectPinnedItems(ctx);
 
   // 如果有标记的节点但尚未收藏，自动创建收藏
   if (pinnedItems.length > 0 && !ctx.isFavorited) {
     ctx.currentUrl = window.location.href;
-    const chatTitle = ctx.items.length > 0 ? ctx.items[0].promptText : ctx.t('favorites.unnamed');
+    const chatTitle = getFavoriteChatTitle(ctx);
 
     await FavoriteStore.favoriteConversation(
       ctx.conversationId,
       ctx.currentUrl,
       ctx.siteName || 'Unknown',
       chatTitle,
-      pinnedItems
+      pinnedItems,
+      ctx.shareUrl
     );
-    ctx.isFavorited = true;
-    ctx.updateTopStarStyle();
     ctx.playStarBounceAnimation();
     return;
   }
@@ -315,10 +424,7 @@ export async function syncPinnedToFavorites(ctx: FavoritesContext): Promise<void
   if (ctx.isFavorited) {
     // 如果没有标记的节点了，保留第一个节点作为代表
     if (pinnedItems.length === 0 && ctx.items.length > 0) {
-      pinnedItems.push({
-        index: 0,
-        promptText: ctx.items[0].promptText
-      });
+      pinnedItems.push(toFavoritePinnedItem(ctx.items[0], 0));
     }
     await FavoriteStore.updateFavoriteItems(ctx.conversationId, pinnedItems);
   }
@@ -392,16 +498,15 @@ export async function showFavoritesModal(
 
     favs.forEach((conv) => {
       conv.items.forEach((item) => {
-        const link: FavoriteArchiveLink = {
-          conversationId: conv.conversationId,
-          nodeIndex: item.nodeIndex
-        };
+        const link: FavoriteArchiveLink = item.nodeId
+          ? { conversationId: conv.conversationId, nodeIndex: item.nodeIndex, nodeId: item.nodeId }
+          : { conversationId: conv.conversationId, nodeIndex: item.nodeIndex };
         const key = toFavoriteLinkKey(link);
         const info: FavoriteLinkInfo = {
           key,
           link,
           conv,
-          promptText: item.promptText,
+          promptText: getPromptDisplayText(ctx, item),
           timestamp: item.timestamp
         };
         byKey.set(key, info);
@@ -788,7 +893,7 @@ export async function showFavoritesModal(
       });
 
       if (info) {
-        row.addEventListener('click', () => ctx.navigateToFavorite(info.conv, info.link.nodeIndex));
+        row.addEventListener('click', () => ctx.navigateToFavorite(info.conv, info.link));
       }
 
       row.appendChild(text);
@@ -1033,6 +1138,7 @@ export async function showFavoritesModal(
     const SETTINGS_KEYS = {
       UI_THEME: 'ui_theme',
       CUSTOM_URLS: 'custom_urls',
+      CUSTOM_SITE_RULES: CUSTOM_SITE_RULES_KEY,
       LANGUAGE: 'language'
     } as const;
 
@@ -1045,12 +1151,19 @@ export async function showFavoritesModal(
       { label: 'Kimi', url: 'https://kimi.com', icon: ctx.getSiteIconUrl('Kimi') },
       { label: 'Qwen', url: 'https://www.qianwen.com', icon: ctx.getSiteIconUrl('Qwen') },
       { label: '豆包', url: 'https://www.doubao.com', icon: ctx.getSiteIconUrl('豆包') },
-      { label: 'ChatGLM', url: 'https://chatglm.cn', icon: ctx.getSiteIconUrl('ChatGLM') }
+      { label: 'ChatGLM', url: 'https://chatglm.cn', icon: ctx.getSiteIconUrl('ChatGLM') },
+      { label: 'Perplexity', url: 'https://www.perplexity.ai', icon: ctx.getSiteIconUrl('Perplexity') },
+      { label: 'Copilot', url: 'https://copilot.microsoft.com', icon: ctx.getSiteIconUrl('Copilot') },
+      { label: 'Le Chat', url: 'https://chat.mistral.ai', icon: ctx.getSiteIconUrl('Le Chat') },
+      { label: 'HuggingChat', url: 'https://huggingface.co/chat', icon: ctx.getSiteIconUrl('HuggingChat') },
+      { label: '元宝', url: 'https://yuanbao.tencent.com', icon: ctx.getSiteIconUrl('元宝') },
+      { label: '文心一言', url: 'https://yiyan.baidu.com', icon: ctx.getSiteIconUrl('文心一言') }
     ];
 
     const storageKeys = [
       SETTINGS_KEYS.UI_THEME,
       SETTINGS_KEYS.CUSTOM_URLS,
+      SETTINGS_KEYS.CUSTOM_SITE_RULES,
       SETTINGS_KEYS.LANGUAGE
     ];
     const settings = await chrome.storage.sync.get(storageKeys);
@@ -1347,6 +1460,26 @@ export async function showFavoritesModal(
     inputWrap.appendChild(addBtn);
     customSection.appendChild(inputWrap);
 
+    // 拾取器直接作用于当前页面，启动前先关闭弹窗
+    const pickBtn = document.createElement('button');
+    pickBtn.type = 'button';
+    pickBtn.textContent = ctx.t('picker.launch');
+    Object.assign(pickBtn.style, {
+      border: '1px solid rgba(128,128,128,0.35)',
+      borderRadius: '8px',
+      padding: '6px 9px',
+      backgroundColor: 'transparent',
+      color: ctx.currentTheme.tooltipTextColor,
+      cursor: 'pointer',
+      fontSize: '12px',
+      flexShrink: '0'
+    });
+    pickBtn.addEventListener('click', () => {
+      ctx.closeFavoritesModal();
+      startRuleElementPicker(ctx.currentLanguage);
+    });
+    customSection.appendChild(row(ctx.t('picker.launch.title'), pickBtn, ctx.t('picker.launch.desc')));
+
     const customList = document.createElement('div');
     customSection.appendChild(customList);
 
@@ -1370,12 +1503,51 @@ export async function showFavoritesModal(
       }
     };
 
+    let customRules: CustomSiteRulesMap = normalizeRulesMap(settings[SETTINGS_KEYS.CUSTOM_SITE_RULES]);
+    let expandedRulesDomain: string | null = null;
+
     const saveCustomUrls = async (urls: string[]): Promise<void> => {
       customUrls = urls;
       await chrome.storage.sync.set({ [SETTINGS_KEYS.CUSTOM_URLS]: urls });
       showStatus(ctx.t('options.save.success'));
     };
 
+    const saveCustomRules = async (rules: CustomSiteRulesMap): Promise<void> => {
+      await chrome.storage.sync.set({ [SETTINGS_KEYS.CUSTOM_SITE_RULES]: rules });
+      customRules = rules;
+      showStatus(ctx.t('options.save.success'));
+    };
+
+    const inputBg = ctx.currentTheme.name === '暗色' ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)';
+
+    const createDomainRulesEditor = (domain: string): HTMLElement => {
+      const editor = createRulesEditor({
+        lang: ctx.currentLanguage,
+        rules: customRules[domain],
+        theme: {
+          textColor: ctx.currentTheme.tooltipTextColor,
+          inputBackground: inputBg,
+          borderColor: 'rgba(128,128,128,0.35)',
+          primaryColor: ctx.currentTheme.activeColor
+        },
+        onSave: async (rules) => {
+          await saveCustomRules({ ...customRules, [domain]: rules });
+          renderCustomUrls();
+        },
+        onClear: async () => {
+          const next = { ...customRules };
+          delete next[domain];
+          await saveCustomRules(next);
+          renderCustomUrls();
+        }
+      });
+      Object.assign(editor.style, {
+        padding: '10px 12px 12px',
+        borderBottom: '1px solid rgba(128,128,128,0.1)'
+      });
+      return editor;
+    };
+
     const renderCustomUrls = (): void => {
       customList.innerHTML = '';
       if (customUrls.length === 0) {
@@ -1406,9 +1578,41 @@ export async function showFavoritesModal(
         });
         deleteBtn.addEventListener('click', async () => {
           await saveCustomUrls(customUrls.filter((_, i) => i !== index));
+          if (customRules[url]) {
+            const next = { ...customRules };
+            delete next[url];
+            await saveCustomRules(next);
+          }
           renderCustomUrls();
         });
-        customList.appendChild(row(url, deleteBtn));
+
+        const rulesBtn = document.createElement('button');
+        rulesBtn.type = 'button';
+        rulesBtn.textContent = ctx.t('options.rules.edit');
+        Object.assign(rulesBtn.style, {
+          border: '1px solid rgba(128,128,128,0.35)',
+          borderRadius: '8px',
+          padding: '6px 9px',
+          backgroundColor: expandedRulesDomain === url ? hoverBg : 'transparent',
+          color: ctx.currentTheme.tooltipTextColor,
+          cursor: 'pointer',
+          fontSize: '12px',
+          flexShrink: '0'
+        });
+        rulesBtn.addEventListener('click', () => {
+          expandedRulesDomain = expandedRulesDomain === url ? null : url;
+          renderCustomUrls();
+        });
+
+        const controls = document.createElement('div');
+        Object.assign(controls.style, { display: 'flex', gap: '6px', flexShrink: '0' });
+        controls.appendChild(rulesBtn);
+        controls.appendChild(deleteBtn);
+
+        customList.appendChild(row(url, controls, customRules[url] ? ctx.t('options.rules.configured') : undefined));
+        if (expandedRulesDomain === url) {
+          customList.appendChild(createDomainRulesEditor(url));
+        }
       });
     };
 
@@ -1829,7 +2033,7 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
   // 点击标题跳转到对话
   titleText.addEventListener('click', (e) => {
     e.stopPropagation();
-    ctx.navigateToFavorite(conv, conv.items[0]?.nodeIndex || 0);
+    ctx.navigateToFavorite(conv, conv.items[0] || { nodeIndex: 0 });
   });
 
   // 编辑按钮（简笔画铅笔图标）
@@ -1937,13 +2141,9 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
     e.stopPropagation();
     const confirmed = await ctx.showConfirmDialog(ctx.t('favorites.confirmDelete'));
     if (confirmed) {
+      // 删除的是当前对话时，星星状态通过 favoriteChanged 更新
       await FavoriteStore.unfavoriteConversation(conv.conversationId);
       item.remove();
-      // 如果删除的是当前对话，更新星星状态
-      if (ctx.conversationId === conv.conversationId) {
-        ctx.isFavorited = false;
-        ctx.updateTopStarStyle();
-      }
     }
   });
 
@@ -1979,6 +2179,23 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
   titleRow.appendChild(titleText);
   titleRow.appendChild(editBtn);
   titleRow.appendChild(deleteBtn);
+
+  // 分享对话标记
+  if (conv.shared) {
+    const sharedTag = document.createElement('span');
+    sharedTag.textContent = ctx.t('favorites.shared');
+    sharedTag.title = conv.shareUrl || conv.url;
+    Object.assign(sharedTag.style, {
+      fontSize: '11px',
+      padding: '2px 6px',
+      border: `1px solid ${theme.activeColor}`,
+      color: theme.activeColor,
+      borderRadius: '4px',
+      flexShrink: '0'
+    });
+    titleRow.appendChild(sharedTag);
+  }
+
   titleRow.appendChild(siteIcon);
 
   // 子项容器（默认隐藏）
@@ -2022,10 +2239,14 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
       cursor: 'pointer'
     });
     // 截取文本，确保一行显示
-    const displayText = subItem.promptText.length > 50
-      ? subItem.promptText.substring(0, 50) + '...'
-      : subItem.promptText;
-    textSpan.textContent = displayText;
+    const promptText = getPromptDisplayText(ctx, subItem);
+    const displayText = promptText.length > 50
+      ? promptText.substring(0, 50) + '...'
+      : promptText;
+    const notes: string[] = [];
+    if (subItem.variant) notes.push(formatVariantLabel(ctx, subItem.variant));
+    if (subItem.sourceCount) notes.push(formatSourceCount(ctx, subItem.sourceCount));
+    textSpan.textContent = [displayText, ...notes].join(' · ');
 
     // 删除子项按钮（简笔画 X 图标）
     const subDeleteBtn = document.createElement('button');
@@ -2054,7 +2275,7 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
       e.stopPropagation();
       const confirmed = await ctx.showConfirmDialog(ctx.t('favorites.confirmDelete'));
       if (confirmed) {
-        await FavoriteStore.removeItem(conv.conversationId, subItem.nodeIndex);
+        await FavoriteStore.removeItem(conv.conversationId, subItem);
         subItemEl.remove();
         // 删除所有子项后父项依然保留，用户可以点击父项跳转到对话
       }
@@ -2075,7 +2296,7 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
     // 点击文本部分跳转
     textSpan.addEventListener('click', (e) => {
       e.stopPropagation();
-      ctx.navigateToFavorite(conv, subItem.nodeIndex);
+      ctx.navigateToFavorite(conv, subItem);
     });
 
     subItems.appendChild(subItemEl);
@@ -2103,7 +2324,7 @@ export function createConversationItem(ctx: FavoritesContext, conv: FavoriteConv
 export function navigateToFavorite(
   ctx: FavoritesContext,
   conv: FavoriteConversation,
-  nodeIndex: number
+  target: FavoriteNodeRef
 ): void {
   const currentUrl = window.location.href;
   const targetUrl = conv.url;
@@ -2112,15 +2333,16 @@ export function navigateToFavorite(
   if (currentUrl === targetUrl || ctx.conversationId === conv.conversationId) {
     ctx.closeFavoritesModal();
 
-    // 触发点击回调跳转到指定节点
-    if (ctx.onClickCallback) {
-      ctx.onClickCallback(nodeIndex);
-    }
+    // 与点击时间线节点相同，跳转到指定节点（优先按稳定 ID 定位）
+    navEvents.emit('nodeClicked', { index: resolveFavoriteNodeIndex(ctx.items, target) });
   } else {
     // 跳转到其他页面
-    // 在 URL 中添加节点索引参数，以便页面加载后跳转
+    // 在 URL 中添加节点 ID 与索引参数，以便页面加载后跳转（ID 找不到时回退到索引）
     const url = new URL(targetUrl);
-    url.searchParams.set('llm_nav_index', String(nodeIndex));
+    if (target.nodeId) {
+      url.searchParams.set('llm_nav_id', target.nodeId);
+    }
+    url.searchParams.set('llm_nav_index', String(target.nodeIndex));
     window.open(url.toString(), '_blank');
     ctx.closeFavoritesModal();
   }
@@ -2429,7 +2651,13 @@ export function getSiteIconUrl(siteName: string): string {
     'Kimi': 'icons/kimi-icon.png',
     'Qwen': 'icons/qwen.png',
     '豆包': 'icons/doubao.png',
-    'ChatGLM': 'icons/chatglm.png'
+    'ChatGLM': 'icons/chatglm.png',
+    'Perplexity': 'icons/perplexity.svg',
+    'Copilot': 'icons/copilot.svg',
+    'Le Chat': 'icons/mistral.svg',
+    'HuggingChat': 'icons/huggingchat.svg',
+    '元宝': 'icons/yuanbao.svg',
+    '文心一言': 'icons/ernie.svg'
   };
 
   const iconPath = iconMap[siteName] || 'icons/icon48.svg';
@@ -2446,28 +2674,18 @@ export async function autoFavoriteIfNeeded(ctx: FavoritesContext): Promise<void>
   if (isExplicitlyFavorited) return;
 
   if (ctx.pinnedNodes.size > 0) {
-    const pinnedItems: Array<{ index: number; promptText: string }> = [];
-    ctx.pinnedNodes.forEach(nodeId => {
-      const index = parseInt(nodeId);
-      if (ctx.items[index]) {
-        pinnedItems.push({
-          index,
-          promptText: ctx.items[index].promptText
-        });
-      }
-    });
+    const pinnedItems = collectPinnedItems(ctx);
 
     if (pinnedItems.length > 0) {
-      const chatTitle = ctx.items.length > 0 ? ctx.items[0].promptText : ctx.t('favorites.unnamed');
+      const chatTitle = getFavoriteChatTitle(ctx);
       await FavoriteStore.favoriteConversation(
         ctx.conversationId,
         ctx.currentUrl,
         ctx.siteName || 'Unknown',
         chatTitle,
-        pinnedItems
+        pinnedItems,
+        ctx.shareUrl
       );
-      ctx.isFavorited = true;
-      ctx.updateTopStarStyle();
     }
   }
 }
@@ -4,12 +4,50 @@
  */
 
 import { themes, resolveTheme, DEFAULT_THEME_MODE, type ThemeType, type ThemeMode } from './themes';
+import { deepQuerySelectorAll } from '../dom/deepQuery';
+import { isDocumentScroller } from '../dom/scrollContainer';
 
 const HIGHLIGHT_CLASS = 'llm-answer-nav-highlight';
+const STYLE_ID = 'llm-answer-nav-styles';
 let currentHighlightedNode: HTMLElement | null = null;
 let stylesInjected = false;
 let cachedThemeMode: ThemeMode | null = null;
 let cachedThemeType: ThemeType | null = null;
+let currentStyleText = '';
+
+// 主文档的样式无法作用于 shadow root 和 iframe 内的节点，需要单独注入
+const extraStyleRoots = new Set<Document | ShadowRoot>();
+
+/**
+ * 写入（或更新）某个文档 / shadow root 中的高亮样式
+ */
+function writeStyles(target: Document | ShadowRoot, css: string): void {
+  let style = target.getElementById(STYLE_ID) as HTMLStyleElement | null;
+  if (!style) {
+    const isDocument = target.nodeType === Node.DOCUMENT_NODE;
+    const ownerDocument = isDocument ? target as Document : (target.ownerDocument || document);
+    style = ownerDocument.createElement('style');
+    style.id = STYLE_ID;
+    if (isDocument) {
+      ((target as Document).head || (target as Document).documentElement).appendChild(style);
+    } else {
+      target.appendChild(style);
+    }
+  }
+  style.textContent = css;
+}
+
+/**
+ * 节点位于 shadow root 或 iframe 中时，把高亮样式也注入到它所在的根
+ */
+function ensureStylesForNode(node: HTMLElement): void {
+  const root = node.getRootNode();
+  if (root === document || extraStyleRoots.has(root as Document | ShadowRoot)) return;
+  if (root.nodeType !== Node.DOCUMENT_NODE && root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE) return;
+
+  extraStyleRoots.add(root as Document | ShadowRoot);
+  writeStyles(root as Document | ShadowRoot, currentStyleText);
+}
 
 /**
  * 注入高亮样式
@@ -33,14 +71,7 @@ async function injectStyles(forceUpdate: boolean = false): Promise<void> {
   cachedThemeType = actualTheme;
   const theme = themes[actualTheme];
 
-  let style = document.getElementById('llm-answer-nav-styles') as HTMLStyleElement | null;
-  if (!style) {
-    style = document.createElement('style');
-    style.id = 'llm-answer-nav-styles';
-    document.head.appendChild(style);
-  }
-
-  style.textContent = `
+  currentStyleText = `
     .${HIGHLIGHT_CLASS} {
       position: relative;
       animation: llm-nav-highlight-pulse 1s ease-in-out;
@@ -80,6 +111,17 @@ async function injectStyles(forceUpdate: boolean = false): Promise<void> {
     }
   `;
 
+  writeStyles(document, currentStyleText);
+  extraStyleRoots.forEach(root => {
+    // shadow root 宿主或 iframe 已被移除时不再维护
+    const host = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).defaultView?.frameElement : (root as ShadowRoot).host;
+    if (host && !host.isConnected) {
+      extraStyleRoots.delete(root);
+      return;
+    }
+    writeStyles(root, currentStyleText);
+  });
+
   stylesInjected = true;
 }
 
@@ -87,14 +129,20 @@ async function injectStyles(forceUpdate: boolean = false): Promise<void> {
  * 平滑滚动到指定回答
  * @param node - 目标回答节点
  * @param topOffset - 顶部偏移量（像素），用于避开页面顶栏等
+ * @param container - 站点的滚动容器，为 null 时在文档上滚动
  */
-export function scrollToAnswer(node: HTMLElement, topOffset: number = 80): void {
+export function scrollToAnswer(node: HTMLElement, topOffset: number = 80, container: HTMLElement | null = null): void {
   if (!node) {
     return;
   }
   
+  // 节点可能位于同源 iframe 中，滚动微调需要作用于节点所在的窗口
+  const view = node.ownerDocument.defaultView || window;
+  // 站点在内部容器中滚动时，微调作用于该容器
+  const scroller = container && !isDocumentScroller(container) ? container : null;
+  
   try {
-    // 方法 1: 使用 scrollIntoView（最可靠）
+    // 方法 1: 使用 scrollIntoView（最可靠，会同时滚动外层的 iframe 与 shadow 宿主）
     node.scrollIntoView({
       behavior: 'smooth',
       block: 'start',
@@ -103,9 +151,9 @@ export function scrollToAnswer(node: HTMLElement, topOffset: number = 80): void
     
     // 微调位置以避开顶栏
     setTimeout(() => {
-      const currentScroll = window.scrollY;
+      const currentScroll = scroller ? scroller.scrollTop : view.scrollY;
       if (currentScroll > topOffset) {
-        window.scrollTo({
+        (scroller || view).scrollTo({
           top: currentScroll - topOffset,
           behavior: 'smooth'
         });
@@ -115,10 +163,17 @@ export function scrollToAnswer(node: HTMLElement, topOffset: number = 80): void
     // 备用方法：直接计算位置
     try {
       const rect = node.getBoundingClientRect();
-      const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+      if (scroller) {
+        scroller.scrollTo({
+          top: scroller.scrollTop + rect.top - scroller.getBoundingClientRect().top - topOffset,
+          behavior: 'smooth'
+        });
+        return;
+      }
+      const scrollTop = view.pageYOffset || node.ownerDocument.documentElement.scrollTop;
       const targetPosition = rect.top + scrollTop - topOffset;
       
-      window.scrollTo({
+      view.scrollTo({
         top: targetPosition,
         behavior: 'smooth'
       });
@@ -137,6 +192,7 @@ export async function highlightAnswer(node: HTMLElement): Promise<void> {
   
   // 确保样式已注入
   await injectStyles();
+  ensureStylesForNode(node);
   
   // 移除之前的高亮
   if (currentHighlightedNode && currentHighlightedNode !== node) {
@@ -166,11 +222,8 @@ function removeHighlight(node: HTMLElement): void {
  * 清除所有高亮
  */
 export function clearAllHighlights(): void {
-  const highlightedNodes = document.querySelectorAll(`.${HIGHLIGHT_CLASS}`);
-  highlightedNodes.forEach(node => {
-    if (node instanceof HTMLElement) {
-      removeHighlight(node);
-    }
+  deepQuerySelectorAll(document, `.${HIGHLIGHT_CLASS}`).forEach(node => {
+    removeHighlight(node);
   });
   currentHighlightedNode = null;
 }
@@ -188,11 +241,12 @@ if (chrome?.storage?.onChanged) {
  * 滚动并高亮指定的回答节点
  * @param node - 目标回答节点
  * @param topOffset - 顶部偏移量
+ * @param container - 站点的滚动容器，为 null 时在文档上滚动
  */
-export function scrollToAndHighlight(node: HTMLElement, topOffset: number = 80): void {
+export function scrollToAndHighlight(node: HTMLElement, topOffset: number = 80, container: HTMLElement | null = null): void {
   if (!node) return;
   
-  scrollToAnswer(node, topOffset);
+  scrollToAnswer(node, topOffset, container);
   
   // 延迟高亮，等待滚动完成
   setTimeout(() => {
@@ -0,0 +1,519 @@
+/**
+ * 自定义站点规则拾取器
+ * 用户在页面上依次点击一条自己的消息和一条 AI 回答，
+ * 拾取器据此推断出能匹配所有对话轮次的通用选择器，实时预览后保存为该域名的规则
+ */
+
+import { getTranslation, type Language } from '../../utils/i18n';
+import {
+  CUSTOM_SITE_RULES_KEY,
+  createEmptyRules,
+  describeStorageError,
+  findCustomDomain,
+  normalizeRules,
+  normalizeRulesMap,
+  validateRules,
+  type CustomSiteRules
+} from '../../utils/customSiteRules';
+
+type PickerStep = 'user' | 'assistant' | 'preview';
+
+const STYLE_ID = 'llm-nav-rule-picker-styles';
+const HOVER_CLASS = 'llm-nav-picker-hover';
+const USER_MATCH_CLASS = 'llm-nav-picker-user';
+const ASSISTANT_MATCH_CLASS = 'llm-nav-picker-assistant';
+
+/** 向上查找候选选择器的最大层数 */
+const MAX_ANCESTOR_DEPTH = 6;
+
+/**
+ * 看起来像构建工具生成的哈希类名或状态类名，不适合作为选择器
+ */
+const UNSTABLE_CLASS_PATTERN = /^(?:css-|sc-|jsx-|svelte-|emotion-)|[0-9a-f]{6,}|\d{3,}|^(?:hover|active|focus|selected|open|hidden|visible|group)$|[:[\]/]/i;
+
+/**
+ * 看起来像唯一 ID 的属性值（UUID、长数字等），只保留属性名
+ */
+const UNIQUE_VALUE_PATTERN = /\d{3,}|[0-9a-f]{8,}|^[\w-]{24,}$/i;
+
+interface SelectorCandidate {
+  selector: string;
+  /** 0: 带值属性 1: 自定义标签 2: 类名 3: 仅属性名 */
+  kind: number;
+  depth: number;
+  matches: number;
+}
+
+function quoteAttributeValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function getStableClasses(element: Element): string[] {
+  return Array.from(element.classList).filter((name) => !UNSTABLE_CLASS_PATTERN.test(name));
+}
+
+/**
+ * 为单个元素生成候选选择器（不涉及层级关系）
+ */
+function buildElementSelectors(element: HTMLElement): Array<{ selector: string; kind: number }> {
+  const tag = element.tagName.toLowerCase();
+  const result: Array<{ selector: string; kind: number }> = [];
+
+  Array.from(element.attributes).forEach((attr) => {
+    const isDataAttr = attr.name.startsWith('data-') && !attr.name.startsWith('data-llm-nav');
+    if (!isDataAttr && attr.name !== 'role') return;
+
+    if (!attr.value || attr.value.length > 40 || UNIQUE_VALUE_PATTERN.test(attr.value)) {
+      result.push({ selector: `[${attr.name}]`, kind: 3 });
+    } else {
+      result.push({ selector: `[${attr.name}=${quoteAttributeValue(attr.value)}]`, kind: 0 });
+    }
+  });
+
+  if (tag.includes('-')) {
+    result.push({ selector: tag, kind: 1 });
+  }
+
+  const classes = getStableClasses(element).map((name) => `.${CSS.escape(name)}`);
+  classes.forEach((cls) => result.push({ selector: `${tag}${cls}`, kind: 2 }));
+  if (classes.length > 1) {
+    result.push({ selector: `${tag}${classes.join('')}`, kind: 2 });
+  }
+
+  return result;
+}
+
+function safeQueryAll(selector: string): HTMLElement[] {
+  try {
+    return Array.from(document.querySelectorAll(selector))
+      .filter((el): el is HTMLElement => el instanceof HTMLElement);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 推断能匹配 target 所在轮次（以及同类轮次）的选择器
+ * 要求匹配结果与 other（另一方的样本）互不包含，避免用户/回答选择器互相串台
+ */
+export function inferTurnSelector(target: HTMLElement, other: HTMLElement | null): string {
+  const candidates: SelectorCandidate[] = [];
+  let current: HTMLElement | null = target;
+
+  for (let depth = 0; current && depth < MAX_ANCESTOR_DEPTH; depth++) {
+    if (current === document.body || current === document.documentElement) break;
+    if (other && current.contains(other)) break;
+
+    buildElementSelectors(current).forEach(({ selector, kind }) => {
+      const matched = safeQueryAll(selector);
+      if (matched.length === 0) return;
+      if (other && matched.some((el) => el.contains(other) || other.contains(el))) return;
+      candidates.push({ selector, kind, depth, matches: matched.length });
+    });
+
+    current = current.parentElement;
+  }
+
+  if (candidates.length === 0) {
+    return target.tagName.toLowerCase();
+  }
+
+  candidates.sort((a, b) => {
+    // 能匹配多条消息的选择器优先（说明已经泛化）
+    const aGeneral = a.matches > 1 ? 0 : 1;
+    const bGeneral = b.matches > 1 ? 0 : 1;
+    if (aGeneral !== bGeneral) return aGeneral - bGeneral;
+    if (a.kind !== b.kind) return a.kind - b.kind;
+    if (a.depth !== b.depth) return a.depth - b.depth;
+    return a.selector.length - b.selector.length;
+  });
+
+  return candidates[0].selector;
+}
+
+/**
+ * 推断消息所在的滚动容器选择器
+ */
+export function inferScrollContainerSelector(element: HTMLElement): string {
+  let current = element.parentElement;
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const { overflowY } = getComputedStyle(current);
+    const scrollable = (overflowY === 'auto' || overflowY === 'scroll') &&
+                       current.scrollHeight > current.clientHeight + 1;
+
+    if (scrollable) {
+      const tag = current.tagName.toLowerCase();
+      const selectors: string[] = [];
+      if (current.id && !UNIQUE_VALUE_PATTERN.test(current.id)) {
+        selectors.push(`#${CSS.escape(current.id)}`);
+      }
+      const classes = getStableClasses(current).map((name) => `.${CSS.escape(name)}`);
+      if (classes.length > 0) {
+        selectors.push(`${tag}${classes.join('')}`);
+      }
+
+      const target = current;
+      const unique = selectors.find((selector) => {
+        const matched = safeQueryAll(selector);
+        return matched.length === 1 && matched[0] === target;
+      });
+      return unique || '';
+    }
+
+    current = current.parentElement;
+  }
+
+  return '';
+}
+
+/**
+ * 规则拾取器
+ */
+export class RuleElementPicker {
+  private step: PickerStep = 'user';
+  private userSample: HTMLElement | null = null;
+  private assistantSample: HTMLElement | null = null;
+  private hovered: HTMLElement | null = null;
+  private panel: HTMLElement;
+  private panelBody: HTMLElement;
+  private language: Language;
+  private rules: CustomSiteRules = createEmptyRules();
+  private onFinish: (saved: boolean) => void;
+  private destroyed: boolean = false;
+
+  constructor(language: Language, onFinish: (saved: boolean) => void) {
+    this.language = language;
+    this.onFinish = onFinish;
+    this.injectStyles();
+    this.panel = this.createPanel();
+    this.panelBody = this.panel.querySelector('.llm-nav-picker-body') as HTMLElement;
+    document.body.appendChild(this.panel);
+
+    document.addEventListener('mousemove', this.handleMouseMove, true);
+    document.addEventListener('click', this.handleClick, true);
+    document.addEventListener('keydown', this.handleKeyDown, true);
+
+    this.render();
+  }
+
+  private t(key: string): string {
+    return getTranslation(key, this.language);
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById(STYLE_ID)) return;
+    const style = document.createElement('style');
+    style.id = STYLE_ID;
+    style.textContent = `
+      .${HOVER_CLASS} { outline: 2px solid #ff9800 !important; outline-offset: 2px !important; cursor: crosshair !important; }
+      .${USER_MATCH_CLASS} { outline: 2px dashed #1e88e5 !important; outline-offset: 2px !important; }
+      .${ASSISTANT_MATCH_CLASS} { outline: 2px dashed #43a047 !important; outline-offset: 2px !important; }
+    `;
+    document.head.appendChild(style);
+  }
+
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div');
+    panel.id = 'llm-nav-rule-picker';
+    Object.assign(panel.style, {
+      position: 'fixed',
+      left: '20px',
+      bottom: '20px',
+      width: '340px',
+      maxWidth: 'calc(100vw - 40px)',
+      padding: '14px 16px',
+      borderRadius: '12px',
+      backgroundColor: '#ffffff',
+      color: '#333333',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.25)',
+      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+      fontSize: '13px',
+      lineHeight: '1.45',
+      zIndex: '2147483647'
+    });
+
+    const title = document.createElement('div');
+    title.textContent = this.t('picker.title');
+    Object.assign(title.style, { fontWeight: '600', fontSize: '14px', marginBottom: '8px' });
+
+    const body = document.createElement('div');
+    body.className = 'llm-nav-picker-body';
+
+    panel.appendChild(title);
+    panel.appendChild(body);
+    return panel;
+  }
+
+  private createButton(key: string, primary: boolean, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = this.t(key);
+    Object.assign(button.style, {
+      padding: '6px 12px',
+      borderRadius: '8px',
+      border: primary ? 'none' : '1px solid #ddd',
+      backgroundColor: primary ? '#4CAF50' : '#ffffff',
+      color: primary ? '#ffffff' : '#333333',
+      cursor: 'pointer',
+      fontSize: '12px'
+    });
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  /**
+   * 根据当前步骤渲染面板内容
+   */
+  private render(): void {
+    this.panelBody.innerHTML = '';
+
+    if (this.step !== 'preview') {
+      const hint = document.createElement('div');
+      hint.textContent = this.t(this.step === 'user' ? 'picker.step.user' : 'picker.step.assistant');
+      hint.style.marginBottom = '10px';
+      this.panelBody.appendChild(hint);
+
+      const actions = document.createElement('div');
+      Object.assign(actions.style, { display: 'flex', justifyContent: 'flex-end', gap: '8px' });
+      actions.appendChild(this.createButton('picker.cancel', false, () => this.finish(false)));
+      this.panelBody.appendChild(actions);
+      return;
+    }
+
+    const fields: Array<{ key: 'userSelector' | 'assistantSelector' | 'scrollContainerSelector'; label: string }> = [
+      { key: 'userSelector', label: 'options.rules.user' },
+      { key: 'assistantSelector', label: 'options.rules.assistant' },
+      { key: 'scrollContainerSelector', label: 'options.rules.scroll' }
+    ];
+
+    const counts = document.createElement('div');
+    Object.assign(counts.style, { margin: '4px 0 10px', fontSize: '12px' });
+
+    const updatePreview = (): void => {
+      const { userCount, assistantCount } = this.highlightMatches();
+      counts.textContent = this.t('picker.preview.counts')
+        .replace('{user}', String(userCount))
+        .replace('{assistant}', String(assistantCount));
+      counts.style.color = userCount > 0 ? '#2e7d32' : '#e53935';
+    };
+
+    fields.forEach((field) => {
+      const label = document.createElement('label');
+      label.textContent = this.t(field.label);
+      Object.assign(label.style, { display: 'grid', gap: '3px', marginBottom: '6px', fontSize: '11px', color: '#666' });
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.value = this.rules[field.key];
+      Object.assign(input.style, {
+        padding: '5px 8px',
+        border: '1px solid #ddd',
+        borderRadius: '6px',
+        fontSize: '12px',
+        color: '#333',
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+      });
+      input.addEventListener('input', () => {
+        this.rules[field.key] = input.value.trim();
+        updatePreview();
+      });
+
+      label.appendChild(input);
+      this.panelBody.appendChild(label);
+    });
+
+    this.panelBody.appendChild(counts);
+    updatePreview();
+
+    const actions = document.createElement('div');
+    Object.assign(actions.style, { display: 'flex', justifyContent: 'flex-end', gap: '8px' });
+    actions.appendChild(this.createButton('picker.cancel', false, () => this.finish(false)));
+    actions.appendChild(this.createButton('picker.repick', false, () => this.restart()));
+    actions.appendChild(this.createButton('picker.save', true, () => {
+      void this.save(counts);
+    }));
+    this.panelBody.appendChild(actions);
+  }
+
+  /**
+   * 高亮当前规则匹配到的所有节点
+   */
+  private highlightMatches(): { userCount: number; assistantCount: number } {
+    this.clearMatchHighlights();
+
+    const users = this.rules.userSelector ? safeQueryAll(this.rules.userSelector) : [];
+    const assistants = this.rules.assistantSelector ? safeQueryAll(this.rules.assistantSelector) : [];
+    users.forEach((el) => el.classList.add(USER_MATCH_CLASS));
+    assistants.forEach((el) => el.classList.add(ASSISTANT_MATCH_CLASS));
+
+    return { userCount: users.length, assistantCount: assistants.length };
+  }
+
+  private clearMatchHighlights(): void {
+    document.querySelectorAll(`.${USER_MATCH_CLASS}, .${ASSISTANT_MATCH_CLASS}`).forEach((el) => {
+      el.classList.remove(USER_MATCH_CLASS, ASSISTANT_MATCH_CLASS);
+    });
+  }
+
+  private setHovered(element: HTMLElement | null): void {
+    if (this.hovered === element) return;
+    this.hovered?.classList.remove(HOVER_CLASS);
+    this.hovered = element;
+    this.hovered?.classList.add(HOVER_CLASS);
+  }
+
+  private isPickerElement(target: EventTarget | null): boolean {
+    return target instanceof Node && this.panel.contains(target);
+  }
+
+  private handleMouseMove = (event: MouseEvent): void => {
+    if (this.step === 'preview' || this.isPickerElement(event.target)) {
+      this.setHovered(null);
+      return;
+    }
+    this.setHovered(event.target instanceof HTMLElement ? event.target : null);
+  };
+
+  private handleClick = (event: MouseEvent): void => {
+    if (this.isPickerElement(event.target) || this.step === 'preview') return;
+    if (!(event.target instanceof HTMLElement)) return;
+
+    // 拾取模式下拦截页面点击，避免触发站点自身的交互
+    event.preventDefault();
+    event.stopPropagation();
+
+    const target = event.target;
+    this.setHovered(null);
+
+    if (this.step === 'user') {
+      this.userSample = target;
+      this.step = 'assistant';
+    } else if (this.step === 'assistant') {
+      if (this.userSample && (this.userSample.contains(target) || target.contains(this.userSample))) {
+        return;
+      }
+      this.assistantSample = target;
+      this.inferRules();
+      this.step = 'preview';
+    }
+
+    this.render();
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.finish(false);
+    }
+  };
+
+  private inferRules(): void {
+    if (!this.userSample || !this.assistantSample) return;
+
+    this.rules = {
+      ...this.rules,
+      userSelector: inferTurnSelector(this.userSample, this.assistantSample),
+      assistantSelector: inferTurnSelector(this.assistantSample, this.userSample),
+      scrollContainerSelector: inferScrollContainerSelector(this.userSample)
+    };
+  }
+
+  private restart(): void {
+    this.clearMatchHighlights();
+    this.userSample = null;
+    this.assistantSample = null;
+    this.step = 'user';
+    this.render();
+  }
+
+  /**
+   * 保存规则到当前域名；当前域名尚未加入 custom_urls 时自动添加
+   */
+  private async save(feedback: HTMLElement): Promise<void> {
+    const result = await chrome.storage.sync.get(['custom_urls', CUSTOM_SITE_RULES_KEY]);
+    const customUrls: string[] = Array.isArray(result.custom_urls) ? result.custom_urls : [];
+    const allRules = normalizeRulesMap(result[CUSTOM_SITE_RULES_KEY]);
+
+    const hostname = window.location.hostname;
+    const domain = findCustomDomain(hostname, customUrls) || hostname;
+    const existing = allRules[domain];
+
+    // 保留手工配置的排除规则、对话 ID 正则和生成中选择器
+    const merged: CustomSiteRules = {
+      ...this.rules,
+      excludeSelectors: existing?.excludeSelectors || this.rules.excludeSelectors,
+      conversationIdPattern: existing?.conversationIdPattern || this.rules.conversationIdPattern,
+      generatingSelector: existing?.generatingSelector || this.rules.generatingSelector
+    };
+
+    const errors = validateRules(merged);
+    const normalized = normalizeRules(merged);
+    if (errors.length > 0 || !normalized) {
+      feedback.textContent = errors.length > 0
+        ? this.t(errors[0].messageKey)
+        : this.t('options.rules.error.userRequired');
+      feedback.style.color = '#e53935';
+      return;
+    }
+
+    const updates: Record<string, unknown> = {
+      [CUSTOM_SITE_RULES_KEY]: { ...allRules, [domain]: normalized }
+    };
+    if (!customUrls.includes(domain)) {
+      updates.custom_urls = [...customUrls, domain];
+    }
+    try {
+      await chrome.storage.sync.set(updates);
+    } catch (error) {
+      // 例如超出 sync 单项配额：保留拾取器，让用户看到原因
+      feedback.textContent = this.t('options.rules.saveFailed').replace('{error}', describeStorageError(error));
+      feedback.style.color = '#e53935';
+      return;
+    }
+
+    this.finish(true);
+  }
+
+  private finish(saved: boolean): void {
+    if (this.destroyed) return;
+    this.destroy();
+    this.onFinish(saved);
+  }
+
+  /**
+   * 移除拾取器 UI 与所有监听
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    document.removeEventListener('mousemove', this.handleMouseMove, true);
+    document.removeEventListener('click', this.handleClick, true);
+    document.removeEventListener('keydown', this.handleKeyDown, true);
+
+    this.setHovered(null);
+    this.clearMatchHighlights();
+    this.panel.remove();
+    document.getElementById(STYLE_ID)?.remove();
+  }
+}
+
+let activePicker: RuleElementPicker | null = null;
+
+/**
+ * 启动规则拾取器（同一页面只保留一个实例）
+ * 保存后的规则通过 storage 变更通知内容脚本重新初始化
+ */
+export function startRuleElementPicker(language: Language): void {
+  if (activePicker) {
+    activePicker.destroy();
+  }
+  activePicker = new RuleElementPicker(language, () => {
+    activePicker = null;
+  });
+}
@@ -1,4 +1,5 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, NEW_CHAT_CONVERSATION_ID, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
 
 function getTopOffset(element: HTMLElement): number {
   const rect = element.getBoundingClientRect();
@@ -18,13 +19,7 @@ function isValidPromptNode(element: HTMLElement): boolean {
 }
 
 function getQuestionNodes(root: Document | HTMLElement): HTMLElement[] {
-  const selectors = [
-    '.conversation.question[id^="row-question-"]',
-    '.conversation.question',
-    '[id^="row-question-"]'
-  ].join(',');
-
-  return Array.from(root.querySelectorAll(selectors))
+  return Array.from(root.querySelectorAll(getSiteSelector('chatglm', 'question')))
     .filter((el): el is HTMLElement => {
       if (!(el instanceof HTMLElement)) return false;
       if (el.id.startsWith('row-question-p-')) return false;
@@ -33,7 +28,7 @@ function getQuestionNodes(root: Document | HTMLElement): HTMLElement[] {
 }
 
 function getQuestionTextNode(questionNode: HTMLElement): HTMLElement {
-  const textNode = questionNode.querySelector('.question-txt, [id^="row-question-p-"]');
+  const textNode = questionNode.querySelector(getSiteSelector('chatglm', 'questionText'));
   return textNode instanceof HTMLElement ? textNode : questionNode;
 }
 
@@ -48,19 +43,17 @@ function findAnswerNode(questionNode: HTMLElement): HTMLElement {
     }
   }
 
-  const item = questionNode.closest('.conversation-item');
-  const answerInItem = item?.querySelector('.answer, [id^="row-answer-"]');
+  const item = questionNode.closest(getSiteSelector('chatglm', 'item'));
+  const answerInItem = item?.querySelector(getSiteSelector('chatglm', 'answerInItem'));
   if (answerInItem instanceof HTMLElement) {
     return answerInItem;
   }
 
+  const answerSiblingSelector = getSiteSelector('chatglm', 'answerSibling');
   let nextSibling = questionNode.nextElementSibling;
   while (nextSibling) {
-    if (nextSibling instanceof HTMLElement) {
-      const classList = nextSibling.className || '';
-      if (classList.includes('answer') || nextSibling.id.startsWith('row-answer-')) {
-        return nextSibling;
-      }
+    if (nextSibling instanceof HTMLElement && nextSibling.matches(answerSiblingSelector)) {
+      return nextSibling;
     }
     nextSibling = nextSibling.nextElementSibling;
   }
@@ -74,18 +67,50 @@ function findAnswerNode(questionNode: HTMLElement): HTMLElement {
 export const chatglmAdapter: SiteAdapter = {
   name: 'ChatGLM',
 
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('chatglm', 'question'),
+      getSiteSelector('chatglm', 'item')
+    ];
+  },
+
   isSupported(location: Location): boolean {
     return location.hostname === 'chatglm.cn' || location.hostname.endsWith('.chatglm.cn');
   },
 
+  /**
+   * 从 URL 提取对话 ID
+   * 对话页形如 /main/alltoolsdetail?cid={id}，也兼容 /detail/{id} 形式
+   * 不带 cid 的 /main/alltoolsdetail 是新对话
+   */
+  getConversationId(location: Location): string | null {
+    const cid = new URLSearchParams(location.search).get('cid');
+    if (cid) return cid;
+
+    const match = location.pathname.match(/\/detail\/([a-zA-Z0-9_-]+)/);
+    if (match) return match[1];
+    return /^\/main\/alltoolsdetail\/?$/.test(location.pathname) ? NEW_CHAT_CONVERSATION_ID : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['智谱清言', 'ChatGLM']);
+  },
+
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
-    return getQuestionNodes(root).map((questionNode, index) => {
+    const nextId = createPairIdGenerator('chatglm');
+
+    return getQuestionNodes(root).map((questionNode) => {
       const textNode = getQuestionTextNode(questionNode);
+      const promptText = extractPromptContent(textNode);
+      // 问题行 ID 形如 row-question-{id}
+      const nativeId = questionNode.id.startsWith('row-question-')
+        ? questionNode.id.slice('row-question-'.length)
+        : null;
 
       return {
-        id: `chatglm-turn-${index}`,
+        id: nextId(promptText, nativeId),
         promptNode: questionNode,
-        promptText: extractPromptContent(textNode),
+        promptText,
         answerNode: findAnswerNode(questionNode),
         topOffset: getTopOffset(questionNode)
       };
@@ -94,5 +119,12 @@ export const chatglmAdapter: SiteAdapter = {
 
   getPromptCount(root: Document | HTMLElement): number {
     return getQuestionNodes(root).length;
+  },
+
+  /**
+   * 生成回答时发送按钮变为停止状态
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('chatglm', 'generating'));
   }
 };
@@ -1,10 +1,20 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, NEW_CHAT_CONVERSATION_ID, readTurnVariant, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 /**
  * ChatGPT 站点适配器
  */
 export const chatgptAdapter: SiteAdapter = {
   name: 'ChatGPT',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('chatgpt', 'message'),
+      getSiteSelector('chatgpt', 'userMessage'),
+      getSiteSelector('chatgpt', 'assistantMessage')
+    ];
+  },
   
   /**
    * 判断是否是 ChatGPT 对话页面
@@ -13,6 +23,7 @@ export const chatgptAdapter: SiteAdapter = {
    * - 根路径: https://chatgpt.com/
    * - 普通对话: https://chatgpt.com/c/{conversation_id}
    * - Project 对话: https://chatgpt.com/g/g-p-{project_id}/c/{conversation_id}
+   * - 分享页（只读）: https://chatgpt.com/share/{share_id}
    */
   isSupported(location: Location): boolean {
     const { hostname, pathname } = location;
@@ -26,13 +37,40 @@ export const chatgptAdapter: SiteAdapter = {
     // 1. 根路径: /
     // 2. 普通对话: /c/
     // 3. Project 对话: /g/g-p-.../c/
+    // 4. 分享页: /share/
     const isConversationPage = pathname === '/' || 
                                pathname.startsWith('/c/') ||
-                               (pathname.startsWith('/g/') && pathname.includes('/c/'));
+                               (pathname.startsWith('/g/') && pathname.includes('/c/')) ||
+                               pathname.startsWith('/share/');
     
     return isChatGPT && isConversationPage;
   },
 
+  /**
+   * 从 URL 提取对话 ID
+   * - /c/{id}
+   * - /g/g-p-{project_id}/c/{id}
+   * 根路径是新对话
+   */
+  getConversationId(location: Location): string | null {
+    if (location.pathname === '/') return NEW_CHAT_CONVERSATION_ID;
+
+    const match = location.pathname.match(/\/c\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  /**
+   * 从 URL 提取分享 ID：/share/{id}
+   */
+  getShareId(location: Location): string | null {
+    const match = location.pathname.match(/^\/share\/(?:e\/)?([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['ChatGPT']);
+  },
+
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
    * 
@@ -77,18 +115,22 @@ export const chatgptAdapter: SiteAdapter = {
       return false;
     };
 
+    const userSelector = getSiteSelector('chatgpt', 'userMessage');
+    const assistantSelector = getSiteSelector('chatgpt', 'assistantMessage');
+
     // 1. 获取所有带有 author-role 的消息元素
-    const allMessages = Array.from(root.querySelectorAll('[data-message-author-role]'));
+    const allMessages = Array.from(root.querySelectorAll(getSiteSelector('chatgpt', 'message')));
     
     // 2. 筛选出所有用户问题
     const userMessages = allMessages.filter(el => 
-      el.getAttribute('data-message-author-role') === 'user' && 
+      el.matches(userSelector) && 
       el instanceof HTMLElement && 
       isValidNode(el)
     ) as HTMLElement[];
 
     // 3. 为每个用户问题构建配对
-    userMessages.forEach((userMsg, index) => {
+    const nextId = createPairIdGenerator('chatgpt');
+    userMessages.forEach((userMsg) => {
       const promptText = extractPromptContent(userMsg);
       
       // 尝试查找对应的 assistant 回答
@@ -98,36 +140,51 @@ export const chatgptAdapter: SiteAdapter = {
       
       for (let i = msgIndex + 1; i < allMessages.length; i++) {
         const nextMsg = allMessages[i];
-        const role = nextMsg.getAttribute('data-message-author-role');
         
-        if (role === 'assistant') {
+        if (nextMsg.matches(assistantSelector)) {
           answerNode = nextMsg as HTMLElement;
           break; // 找到第一个 assistant 就停止
-        } else if (role === 'user') {
+        } else if (nextMsg.matches(userSelector)) {
           break; // 如果遇到下一个 user，说明当前 prompt 没有回答（或结构断了），停止寻找
         }
       }
 
+      // 版本切换器位于每轮的 article 容器中（提问编辑过或回答重新生成过）
+      const turnSelector = getSiteSelector('chatgpt', 'turn');
+      const variant = readTurnVariant(
+        userMsg.closest(turnSelector),
+        answerNode !== userMsg ? answerNode.closest(turnSelector) : null,
+        userMsg
+      );
+
       // 构建配对对象
       pairs.push({
-        id: `pair-${index}-${Date.now()}`,
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-message-id'])),
         promptNode: userMsg,
         promptText: promptText,
         answerNode: answerNode, // 如果没找到回答，这里就是 promptNode 自身
-        topOffset: getTopOffset(userMsg) // 关键：位置以 prompt 为准
+        topOffset: getTopOffset(userMsg), // 关键：位置以 prompt 为准
+        ...(variant ? { variant } : {})
       });
     });
     
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('chatgpt', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
     // 直接复用 getPromptAnswerPairs 中的核心选择器逻辑
     // 排除输入框等干扰项的简化版逻辑
-    const allUserRoles = root.querySelectorAll('[data-message-author-role="user"]');
+    const allUserRoles = root.querySelectorAll(getSiteSelector('chatgpt', 'userMessage'));
     let count = 0;
     
     for (let i = 0; i < allUserRoles.length; i++) {
@@ -141,5 +198,12 @@ export const chatgptAdapter: SiteAdapter = {
     }
     
     return count;
+  },
+
+  /**
+   * 生成回答时显示停止按钮，流式输出中的回答带有标记
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('chatgpt', 'generating'));
   }
 };
@@ -1,79 +1,116 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, NEW_CHAT_CONVERSATION_ID, readTurnVariant, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
+
+/**
+ * 获取所有用户消息
+ * 选择器中包含通用的容器类名，需要过滤掉没有内容的节点；只有附件的提问也算有效
+ */
+function getUserMessages(root: Document | HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll(getSiteSelector('claude', 'userMessage')))
+    .filter((el): el is HTMLElement => {
+      if (!(el instanceof HTMLElement)) return false;
+      const text = el.textContent?.trim() || '';
+      if (text.length > 0) return true;
+      return !!el.querySelector('img, svg, canvas, pre, code, [data-testid*="file"]');
+    });
+}
+
+/**
+ * 查找提问对应的回答
+ * 每条消息包裹在 [data-test-render-count] 中，回答是紧随其后的兄弟节点；
+ * 下一条仍是提问时说明还没有回答
+ */
+function findAnswerTurn(turn: Element | null): HTMLElement | null {
+  const next = turn?.nextElementSibling;
+  if (!(next instanceof HTMLElement) || !next.matches(getSiteSelector('claude', 'turn'))) return null;
+  return next.querySelector(getSiteSelector('claude', 'userMessage')) ? null : next;
+}
 
 export const claudeAdapter: SiteAdapter = {
   name: 'Claude',
+
+  get diagnosticSelectors() {
+    return getSiteSelector('claude', 'userMessage').split(',').map(selector => selector.trim());
+  },
   
   isSupported(location: Location): boolean {
     return location.hostname === 'claude.ai' || location.hostname.endsWith('.claude.ai');
   },
 
+  /**
+   * 从 URL 提取对话 ID：/chat/{uuid}；/new 为尚未保存的新对话
+   */
+  getConversationId(location: Location): string | null {
+    if (/^\/new\/?$/.test(location.pathname)) return NEW_CHAT_CONVERSATION_ID;
+
+    const match = location.pathname.match(/^\/chat\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  /**
+   * 从 URL 提取分享 ID：/share/{uuid}
+   */
+  getShareId(location: Location): string | null {
+    const match = location.pathname.match(/^\/share\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Claude']);
+  },
+
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
     
-    // Claude 的用户消息通常包含特定的类名或属性
-    // 目前 Claude 的 DOM 结构经常变动，尝试几种常见的选择器
-    const userMessages = Array.from(root.querySelectorAll([
-      '.font-user-message', // 常见类名
-      '[data-testid="user-message"]', // 测试 ID
-      'div.group.grid.grid-cols-1' // 某些版本的容器
-    ].join(','))).filter(el => {
-      // 过滤掉非用户消息（如果使用了通用选择器）
-      // 使用 extractPromptContent 的逻辑判断是否包含有效内容
-      const element = el as HTMLElement;
-      const text = element.textContent?.trim() || '';
-      if (text.length > 0) return true;
-      if (element.querySelector('img, svg, canvas, pre, code, [data-testid*="file"]')) return true;
-      return false;
-    });
+    const userMessages = getUserMessages(root);
 
-    // 如果上述特定选择器找不到，尝试通用策略：查找包含 "User" 或头像的容器
-    // (为了简化，这里暂时假设上述选择器能覆盖大部分情况，或者依赖后续的通用逻辑)
+    const nextId = createPairIdGenerator('claude');
+    userMessages.forEach((element) => {
+      const promptText = extractPromptContent(element);
 
-    userMessages.forEach((msg, index) => {
-      const element = msg as HTMLElement;
-      // 尝试找到对应的 AI 回答
-      // 在 Claude 中，回答通常紧跟在用户消息后面
-      
       // 简单的偏移量计算
       const rect = element.getBoundingClientRect();
       const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
       const topOffset = rect.top + scrollTop;
 
+      // 编辑过的提问和重新生成的回答下方都有「2 / 3」版本切换器
+      const turn = element.closest(getSiteSelector('claude', 'turn'));
+      const answerTurn = findAnswerTurn(turn);
+      const variant = readTurnVariant(turn, answerTurn, element);
+
       pairs.push({
-        id: `claude-turn-${index}`,
+        id: nextId(promptText),
         promptNode: element,
-        promptText: extractPromptContent(element),
-        answerNode: element, // 暂时指向自己，跳转逻辑主要依赖 promptNode
-        topOffset
+        promptText,
+        answerNode: answerTurn || element,
+        topOffset,
+        ...(variant ? { variant } : {})
       });
     });
 
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('claude', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const selectors = [
-      '.font-user-message', // 常见类名
-      '[data-testid="user-message"]', // 测试 ID
-      'div.group.grid.grid-cols-1' // 某些版本的容器
-    ].join(',');
-    
-    const elements = root.querySelectorAll(selectors);
-    let count = 0;
-    
-    for (let i = 0; i < elements.length; i++) {
-      const el = elements[i];
-      // 简单的文本长度检查，避免昂贵的布局计算
-      // 注意：textContent 访问通常比 getBoundingClientRect 快得多
-      if (el.textContent && el.textContent.trim().length > 0) {
-        count++;
-      }
-    }
-    
-    return count;
+    return getUserMessages(root).length;
+  },
+
+  /**
+   * 流式输出中的回答带有 data-is-streaming 标记
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('claude', 'generating'));
   }
 };
 
@@ -0,0 +1,114 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+
+/**
+ * Microsoft Copilot 站点适配器
+ * 支持 copilot.microsoft.com 的对话页面
+ *
+ * URL 格式：
+ * - 对话页面: https://copilot.microsoft.com/chats/{conversation_id}
+ */
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+function isValidPromptNode(element: HTMLElement): boolean {
+  if (element.querySelector('textarea, [contenteditable="true"], form')) {
+    return false;
+  }
+
+  const text = element.textContent?.trim() || '';
+  if (text.length > 0) return true;
+
+  return !!element.querySelector('img, svg, canvas, pre, code');
+}
+
+/**
+ * 按文档顺序获取所有消息（用户 + 回答）
+ */
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll(`${getSiteSelector('copilot', 'userMessage')}, ${getSiteSelector('copilot', 'aiMessage')}`))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement);
+}
+
+function isUserMessage(element: HTMLElement): boolean {
+  return element.matches(getSiteSelector('copilot', 'userMessage')) && isValidPromptNode(element);
+}
+
+export const copilotAdapter: SiteAdapter = {
+  name: 'Copilot',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('copilot', 'userMessage'),
+      getSiteSelector('copilot', 'aiMessage')
+    ];
+  },
+
+  isSupported(location: Location): boolean {
+    return location.hostname === 'copilot.microsoft.com';
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/chats/{id}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/chats\/([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Microsoft Copilot', 'Copilot', 'Microsoft Copilot: Your AI companion']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const pairs: PromptAnswerPair[] = [];
+    const messages = getMessages(root);
+    const nextId = createPairIdGenerator('copilot');
+    const userSelector = getSiteSelector('copilot', 'userMessage');
+    const aiSelector = getSiteSelector('copilot', 'aiMessage');
+
+    messages.forEach((message, index) => {
+      if (!isUserMessage(message)) return;
+
+      // 回答是下一条用户消息之前的第一条 AI 消息
+      let answerNode = message;
+      for (let i = index + 1; i < messages.length; i++) {
+        if (messages[i].matches(userSelector)) break;
+        if (messages[i].matches(aiSelector)) {
+          answerNode = messages[i];
+          break;
+        }
+      }
+
+      const promptText = extractPromptContent(message);
+      pairs.push({
+        id: nextId(promptText, findNativeMessageId(message, ['data-message-id'])),
+        promptNode: message,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(message)
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return Array.from(root.querySelectorAll(getSiteSelector('copilot', 'userMessage')))
+      .filter(el => el instanceof HTMLElement && isValidPromptNode(el)).length;
+  },
+
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('copilot', 'generating'));
+  }
+};
@@ -1,4 +1,75 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import {
+  createPairIdGenerator,
+  extractPromptContent,
+  GENERIC_GENERATING_SELECTOR,
+  type SiteAdapter,
+  type PromptAnswerPair
+} from './index';
+import { extractConversationIdByPattern, type CustomSiteRules } from '../../utils/customSiteRules';
+import { deepQuerySelector, deepQuerySelectorAll, getDeepTopOffset } from '../dom/deepQuery';
+import { detectStructuralTurns, MIN_STRUCTURAL_CONFIDENCE, type StructuralDetection } from './structuralHeuristic';
+
+// 自定义站点的前端实现未知，可能渲染在 Shadow DOM 或同源 iframe 中，统一使用深度查询
+function getTopOffset(element: HTMLElement): number {
+  return getDeepTopOffset(element);
+}
+
+/** 通用的用户消息选择器，覆盖 DeepSeek 及一些开源 UI 库的常见模式 */
+const GENERIC_USER_MESSAGE_SELECTORS = [
+  '[role="user"]',
+  '.user-message',
+  '.message-user',
+  '[class*="user-message"]',
+  '[class*="UserMessage"]',
+  '.chat-message-user'
+].join(',');
+
+/**
+ * 按优先级依次尝试的用户消息选择器，使用第一个有命中的
+ */
+const USER_MESSAGE_STRATEGIES = [
+  // 策略 1: ChatGPT 风格 (data-message-author-role)
+  '[data-message-author-role="user"]',
+  // 策略 2: Claude 风格
+  '.font-user-message, [data-testid="user-message"]',
+  // 策略 3: Gemini 风格
+  'user-query, .user-query',
+  // 策略 4: DeepSeek / 通用 Class 匹配
+  GENERIC_USER_MESSAGE_SELECTORS
+];
+
+/**
+ * 按选择器策略查找用户消息，并过滤掉输入框和空节点
+ * 所有策略都未命中时返回 null，由调用方改用结构识别
+ */
+function findUserMessages(root: Document | HTMLElement): HTMLElement[] | null {
+  for (const selector of USER_MESSAGE_STRATEGIES) {
+    const matches = deepQuerySelectorAll(root, selector);
+    if (matches.length === 0) continue;
+
+    return matches.filter(el => {
+      // 排除输入框
+      if (el.querySelector('textarea, form, [contenteditable]')) return false;
+
+      // 检查内容
+      const text = el.textContent?.trim() || '';
+      if (text.length > 0) return true;
+      if (el.querySelector('img, svg, canvas, pre, code')) return true;
+
+      return false;
+    });
+  }
+  return null;
+}
+
+/**
+ * 结构识别结果，可信度不足时返回 null
+ * 识别结果按容器缓存在 structuralHeuristic 中，消息块不变时不会重新扫描
+ */
+function getStructuralDetection(root: Document | HTMLElement): StructuralDetection | null {
+  const detection = detectStructuralTurns(root);
+  return detection && detection.confidence >= MIN_STRUCTURAL_CONFIDENCE ? detection : null;
+}
 
 /**
  * 自定义/通用站点适配器
@@ -7,6 +78,8 @@ import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from '.
  */
 export const customSiteAdapter: SiteAdapter = {
   name: 'Custom Site',
+
+  usesDeepQuery: true,
   
   // 这里的 isSupported 实际上由 index.ts 中的逻辑控制
   // 但为了接口完整性，我们返回 false，由 getActiveAdapter 显式调用
@@ -14,69 +87,37 @@ export const customSiteAdapter: SiteAdapter = {
 
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
-    let userMessages: HTMLElement[] = [];
-
-    // 策略 1: ChatGPT 风格 (data-message-author-role)
-    const chatgptStyle = root.querySelectorAll('[data-message-author-role="user"]');
-    if (chatgptStyle.length > 0) {
-      userMessages = Array.from(chatgptStyle) as HTMLElement[];
-    }
-
-    // 策略 2: Claude 风格
-    if (userMessages.length === 0) {
-      const claudeStyle = root.querySelectorAll('.font-user-message, [data-testid="user-message"]');
-      if (claudeStyle.length > 0) {
-        userMessages = Array.from(claudeStyle) as HTMLElement[];
-      }
-    }
+    const userMessages = findUserMessages(root);
 
-    // 策略 3: Gemini 风格
-    if (userMessages.length === 0) {
-      const geminiStyle = root.querySelectorAll('user-query, .user-query');
-      if (geminiStyle.length > 0) {
-        userMessages = Array.from(geminiStyle) as HTMLElement[];
-      }
-    }
+    // 策略 5: 没有任何选择器命中时，按页面结构识别交替出现的提问/回答块
+    // 可信度不足时不返回任何条目，时间线不会出现
+    if (!userMessages) {
+      const detection = getStructuralDetection(root);
+      if (!detection) return pairs;
 
-    // 策略 4: DeepSeek / 通用 Class 匹配
-    if (userMessages.length === 0) {
-      const genericSelectors = [
-        '[role="user"]',
-        '.user-message',
-        '.message-user',
-        '[class*="user-message"]',
-        '[class*="UserMessage"]',
-        // 一些开源 UI 库的常见模式
-        '.chat-message-user'
-      ];
-      const genericNodes = root.querySelectorAll(genericSelectors.join(','));
-      if (genericNodes.length > 0) {
-        userMessages = Array.from(genericNodes) as HTMLElement[];
-      }
+      const nextStructuralId = createPairIdGenerator('custom');
+      detection.turns.forEach(({ prompt, answer }) => {
+        const promptText = extractPromptContent(prompt);
+        pairs.push({
+          id: nextStructuralId(promptText),
+          promptNode: prompt,
+          promptText,
+          answerNode: answer || prompt,
+          topOffset: getTopOffset(prompt)
+        });
+      });
+      return pairs;
     }
 
-    // 过滤无效节点
-    userMessages = userMessages.filter(el => {
-      // 排除输入框
-      if (el.querySelector('textarea, form, [contenteditable]')) return false;
-      
-      // 检查内容
-      const text = el.textContent?.trim() || '';
-      if (text.length > 0) return true;
-      if (el.querySelector('img, svg, canvas, pre, code')) return true;
-      
-      return false;
-    });
-
-    userMessages.forEach((msg, index) => {
-      const rect = msg.getBoundingClientRect();
-      const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
-      const topOffset = rect.top + scrollTop;
+    const nextId = createPairIdGenerator('custom');
+    userMessages.forEach((msg) => {
+      const topOffset = getTopOffset(msg);
+      const promptText = extractPromptContent(msg);
 
       pairs.push({
-        id: `custom-turn-${index}-${Date.now()}`,
+        id: nextId(promptText),
         promptNode: msg,
-        promptText: extractPromptContent(msg),
+        promptText,
         answerNode: msg, // 暂时指向自己
         topOffset
       });
@@ -86,19 +127,124 @@ export const customSiteAdapter: SiteAdapter = {
   },
 
   getPromptCount(root: Document | HTMLElement): number {
-    // 简化版计数，尝试所有选择器
-    const allSelectors = [
-      '[data-message-author-role="user"]',
-      '.font-user-message',
-      '[data-testid="user-message"]',
-      'user-query',
-      '.user-query',
-      '[role="user"]',
-      '.user-message',
-      '.message-user'
-    ].join(',');
-    
-    return root.querySelectorAll(allSelectors).length;
+    // 与 getPromptAnswerPairs 使用同一套策略和过滤，避免计数与条目数不一致导致反复重建
+    const userMessages = findUserMessages(root);
+    if (userMessages) return userMessages.length;
+
+    const detection = getStructuralDetection(root);
+    return detection ? detection.turns.length : 0;
+  },
+
+  /**
+   * 前端实现未知，按常见的停止按钮和流式输出标记判断
+   */
+  isGenerating(doc: Document): boolean {
+    return !!deepQuerySelector(doc, GENERIC_GENERATING_SELECTOR);
   }
 };
 
+
+/**
+ * 根据用户配置的规则构建自定义站点适配器
+ * 规则来自 custom_site_rules[domain]，由设置页编辑
+ */
+export function createRuleBasedAdapter(rules: CustomSiteRules): SiteAdapter {
+  const isExcluded = (element: HTMLElement): boolean => {
+    return rules.excludeSelectors.some((selector) => {
+      try {
+        return !!element.closest(selector);
+      } catch {
+        return false;
+      }
+    });
+  };
+
+  const isUserMessage = (element: HTMLElement): boolean => {
+    try {
+      return element.matches(rules.userSelector);
+    } catch {
+      return false;
+    }
+  };
+
+  const hasContent = (element: HTMLElement): boolean => {
+    if (element.textContent?.trim()) return true;
+    return !!element.querySelector('img, svg, canvas, pre, code');
+  };
+
+  /**
+   * 按文档顺序获取所有消息（用户 + 回答），并排除命中排除规则的节点
+   */
+  const getMessages = (root: Document | HTMLElement): HTMLElement[] => {
+    const selector = rules.assistantSelector
+      ? `${rules.userSelector}, ${rules.assistantSelector}`
+      : rules.userSelector;
+
+    try {
+      return deepQuerySelectorAll(root, selector).filter(el => !isExcluded(el));
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    name: 'Custom Site',
+
+    usesDeepQuery: true,
+
+    isSupported: () => true,
+
+    getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+      const allMessages = getMessages(root);
+      const userMessages = allMessages.filter(el => isUserMessage(el) && hasContent(el));
+
+      const nextId = createPairIdGenerator('custom');
+
+      return userMessages.map((userMsg) => {
+        const promptText = extractPromptContent(userMsg);
+        // 紧随其后的非用户消息即为回答；如果下一条仍是用户消息，说明还没有回答
+        const nextMsg = allMessages[allMessages.indexOf(userMsg) + 1];
+        const answerNode = nextMsg && !isUserMessage(nextMsg) ? nextMsg : userMsg;
+
+        return {
+          id: nextId(promptText),
+          promptNode: userMsg,
+          promptText,
+          answerNode,
+          topOffset: getTopOffset(userMsg)
+        };
+      });
+    },
+
+    getScrollContainer(root: Document | HTMLElement): HTMLElement {
+      if (rules.scrollContainerSelector) {
+        try {
+          const container = deepQuerySelector(root, rules.scrollContainerSelector);
+          if (container) return container;
+        } catch {
+          // 选择器无效时回退到文档滚动
+        }
+      }
+      return document.documentElement;
+    },
+
+    getPromptCount(root: Document | HTMLElement): number {
+      return getMessages(root).filter(el => isUserMessage(el) && hasContent(el)).length;
+    },
+
+    getConversationId(location: Location): string | null {
+      return extractConversationIdByPattern(location, rules.conversationIdPattern);
+    },
+
+    /**
+     * 优先使用规则中配置的生成中选择器，未配置时使用通用规则
+     */
+    isGenerating(doc: Document): boolean {
+      try {
+        return !!deepQuerySelector(doc, rules.generatingSelector || GENERIC_GENERATING_SELECTOR);
+      } catch {
+        return false;
+      }
+    }
+  };
+}
@@ -1,4 +1,6 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 function getTopOffset(element: HTMLElement): number {
   const rect = element.getBoundingClientRect();
@@ -18,40 +20,51 @@ function isValidPromptNode(element: HTMLElement): boolean {
 }
 
 function getCurrentDeepSeekMessages(root: Document | HTMLElement): HTMLElement[] {
-  return Array.from(root.querySelectorAll('.ds-message'))
+  return Array.from(root.querySelectorAll(getSiteSelector('deepseek', 'message')))
     .filter((el): el is HTMLElement => el instanceof HTMLElement);
 }
 
 function isCurrentDeepSeekUserMessage(element: HTMLElement): boolean {
-  return !element.querySelector('.ds-assistant-message-main-content') && isValidPromptNode(element);
+  return !element.querySelector(getSiteSelector('deepseek', 'assistantContent')) && isValidPromptNode(element);
 }
 
 function getLegacyUserMessages(root: Document | HTMLElement): HTMLElement[] {
-  const selectors = [
-    'div[data-um-id]',
-    '.ds-user-message',
-    '.user-message',
-    '[role="user"]',
-    'div[class*="message"][class*="user"]',
-    '.ds-chat-message-user',
-    '.chat-message-user',
-    '[data-message-author-role="user"]'
-  ].join(',');
-
-  return Array.from(root.querySelectorAll(selectors))
+  return Array.from(root.querySelectorAll(getSiteSelector('deepseek', 'legacyUserMessage')))
     .filter((el): el is HTMLElement => el instanceof HTMLElement && isValidPromptNode(el));
 }
 
 export const deepseekAdapter: SiteAdapter = {
   name: 'DeepSeek',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('deepseek', 'message'),
+      getSiteSelector('deepseek', 'assistantContent'),
+      'div[data-um-id]',
+      '.ds-user-message'
+    ];
+  },
   
   isSupported(location: Location): boolean {
     return location.hostname === 'chat.deepseek.com' ||
            location.hostname === 'www.chat.deepseek.com';
   },
 
+  /**
+   * 从 URL 提取对话 ID：/a/chat/s/{id}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/\/s\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['DeepSeek', '探索未至之境', 'Into the Unknown']);
+  },
+
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
+    const nextId = createPairIdGenerator('deepseek');
 
     // 当前 DeepSeek 使用 .ds-message，assistant 内容带有
     // .ds-assistant-message-main-content，用户问题没有该子节点。
@@ -59,13 +72,14 @@ export const deepseekAdapter: SiteAdapter = {
     const userMessages = allMessages.filter(isCurrentDeepSeekUserMessage);
 
     if (userMessages.length > 0) {
-      userMessages.forEach((userMsg, index) => {
+      userMessages.forEach((userMsg) => {
+        const promptText = extractPromptContent(userMsg);
         const msgIndex = allMessages.indexOf(userMsg);
         let answerNode = userMsg;
 
         for (let i = msgIndex + 1; i < allMessages.length; i++) {
           const nextMsg = allMessages[i];
-          if (nextMsg.querySelector('.ds-assistant-message-main-content')) {
+          if (nextMsg.querySelector(getSiteSelector('deepseek', 'assistantContent'))) {
             answerNode = nextMsg;
             break;
           }
@@ -75,9 +89,9 @@ export const deepseekAdapter: SiteAdapter = {
         }
 
         pairs.push({
-          id: `deepseek-turn-${index}`,
+          id: nextId(promptText, findNativeMessageId(userMsg, ['data-um-id'])),
           promptNode: userMsg,
-          promptText: extractPromptContent(userMsg),
+          promptText,
           answerNode,
           topOffset: getTopOffset(userMsg)
         });
@@ -87,11 +101,12 @@ export const deepseekAdapter: SiteAdapter = {
     }
 
     // 旧版 DOM fallback。
-    getLegacyUserMessages(root).forEach((userMsg, index) => {
+    getLegacyUserMessages(root).forEach((userMsg) => {
+      const promptText = extractPromptContent(userMsg);
       pairs.push({
-        id: `deepseek-legacy-turn-${index}`,
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-um-id'])),
         promptNode: userMsg,
-        promptText: extractPromptContent(userMsg),
+        promptText,
         answerNode: userMsg,
         topOffset: getTopOffset(userMsg)
       });
@@ -100,6 +115,13 @@ export const deepseekAdapter: SiteAdapter = {
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('deepseek', 'message')));
+  },
+
   /**
    * 快速获取问题数量
    */
@@ -110,5 +132,12 @@ export const deepseekAdapter: SiteAdapter = {
     }
 
     return getLegacyUserMessages(root).length;
+  },
+
+  /**
+   * 流式输出中的回答带有 streaming 标记，输入框旁显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('deepseek', 'generating'));
   }
 };
@@ -1,4 +1,6 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, NEW_CHAT_CONVERSATION_ID, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 /**
  * 豆包（字节跳动）站点适配器
@@ -6,9 +8,14 @@ import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from '.
  * 
  * URL 格式：
  * - 对话页面: https://www.doubao.com/chat/{conversation_id}
+ * - 新对话: https://www.doubao.com/chat/
  */
 export const doubaoAdapter: SiteAdapter = {
   name: '豆包',
+
+  get diagnosticSelectors() {
+    return getSiteSelectorList('doubao', 'userMessage');
+  },
   
   /**
    * 判断是否是豆包对话页面
@@ -25,6 +32,20 @@ export const doubaoAdapter: SiteAdapter = {
     return pathname.startsWith('/chat/');
   },
 
+  /**
+   * 从 URL 提取对话 ID：/chat/{id}（/chat/ 本身是新对话）
+   */
+  getConversationId(location: Location): string | null {
+    if (/^\/chat\/?$/.test(location.pathname)) return NEW_CHAT_CONVERSATION_ID;
+
+    const match = location.pathname.match(/^\/chat\/([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['豆包', 'Doubao']);
+  },
+
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
    */
@@ -65,16 +86,10 @@ export const doubaoAdapter: SiteAdapter = {
 
     // 豆包的用户消息选择器
     // 根据 HTML 结构，用户消息在 [data-testid="send_message"] 内
-    const userMessageSelectors = [
-      '[data-testid="send_message"]',  // 主要选择器
-      '[data-testid="message_content"]', // 备选选择器
-      '[data-message-id]'                // 通用消息标识
-    ];
-
     let userMessages: HTMLElement[] = [];
     
-    // 尝试各种选择器
-    for (const selector of userMessageSelectors) {
+    // 按优先级尝试各种选择器
+    for (const selector of getSiteSelectorList('doubao', 'userMessage')) {
       const found = root.querySelectorAll(selector);
       if (found.length > 0) {
         userMessages = Array.from(found).filter(el => 
@@ -87,15 +102,18 @@ export const doubaoAdapter: SiteAdapter = {
     }
 
     // 构建配对
+    const nextId = createPairIdGenerator('doubao');
+    const answerSelector = getSiteSelector('doubao', 'answerContent');
     userMessages.forEach((userMsg, index) => {
       const promptText = extractPromptContent(userMsg);
       
-      // 尝试查找对应的 AI 回答（在用户消息后面）
+      // 尝试查找对应的 AI 回答（在用户消息后面），遇到下一条提问说明还没有回答
       let answerNode = userMsg;
       let nextSibling = userMsg.nextElementSibling;
-      while (nextSibling) {
+      const nextPrompt = userMessages[index + 1];
+      while (nextSibling && !(nextPrompt && nextSibling.contains(nextPrompt))) {
         // 查找可能的 AI 回答容器
-        if (nextSibling.querySelector('[data-testid*="assistant"], [data-testid*="answer"], [data-testid*="response"]')) {
+        if (nextSibling.querySelector(answerSelector)) {
           answerNode = nextSibling as HTMLElement;
           break;
         }
@@ -103,7 +121,7 @@ export const doubaoAdapter: SiteAdapter = {
       }
       
       pairs.push({
-        id: `doubao-turn-${index}-${Date.now()}`,
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-message-id'])),
         promptNode: userMsg,
         promptText: promptText,
         answerNode: answerNode,
@@ -114,29 +132,37 @@ export const doubaoAdapter: SiteAdapter = {
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('doubao', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const selectors = [
-      '[data-testid="send_message"]',
-      '[data-testid="message_content"]',
-      '[data-message-id]'
-    ].join(',');
-    
-    const elements = root.querySelectorAll(selectors);
-    let count = 0;
-    
-    for (let i = 0; i < elements.length; i++) {
-      const el = elements[i] as HTMLElement;
-      // 简单的有效性检查
-      if (el.querySelector('textarea') || el.querySelector('form')) {
-        continue;
+    // 与 getPromptAnswerPairs 一致，只使用第一个有匹配的选择器，避免同一条消息的外层和内层被重复计数
+    for (const selector of getSiteSelectorList('doubao', 'userMessage')) {
+      const elements = root.querySelectorAll(selector);
+      if (elements.length > 0) {
+        let count = 0;
+        for (let i = 0; i < elements.length; i++) {
+          // 简单的有效性检查
+          if (!elements[i].querySelector('textarea, form')) count++;
+        }
+        return count;
       }
-      count++;
     }
-    
-    return count;
+    return 0;
+  },
+
+  /**
+   * 生成回答时输入框显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('doubao', 'generating'));
   }
 };
 
@@ -0,0 +1,145 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+
+/**
+ * 检查是否是有效的对话节点
+ */
+function isValidNode(element: HTMLElement): boolean {
+  // 排除输入框区域
+  if (element.querySelector('textarea, [contenteditable="true"], form')) {
+    return false;
+  }
+  
+  const text = element.textContent?.trim() || '';
+  if (text.length > 0) return true;
+  
+  return !!element.querySelector('img, svg, canvas, pre, code');
+}
+
+/**
+ * 按选择器优先级查找用户消息
+ * 文心一言使用 CSS Modules，类名带有哈希后缀，只能按前缀匹配（提问文本 → 提问容器 → 兜底）
+ */
+function findUserMessages(root: Document | HTMLElement): HTMLElement[] {
+  for (const selector of getSiteSelectorList('ernie', 'userMessage')) {
+    const candidates = Array.from(root.querySelectorAll(selector))
+      .filter((el): el is HTMLElement => el instanceof HTMLElement && isValidNode(el));
+    // 前缀匹配可能同时命中容器和内部节点，只保留最外层
+    const userMessages = candidates.filter(el => !candidates.some(other => other !== el && other.contains(el)));
+    if (userMessages.length > 0) {
+      return userMessages;
+    }
+  }
+  return [];
+}
+
+/**
+ * 文心一言（百度 ERNIE）站点适配器
+ * 支持 yiyan.baidu.com 的对话页面
+ * 
+ * URL 格式：
+ * - 对话页面: https://yiyan.baidu.com/chat/{conversation_id}
+ */
+export const ernieAdapter: SiteAdapter = {
+  name: '文心一言',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelectorList('ernie', 'userMessage')[0],
+      getSiteSelector('ernie', 'card'),
+      getSiteSelector('ernie', 'answerInCard')
+    ];
+  },
+  
+  /**
+   * 判断是否是文心一言对话页面
+   */
+  isSupported(location: Location): boolean {
+    const { hostname, pathname } = location;
+    
+    if (hostname !== 'yiyan.baidu.com') {
+      return false;
+    }
+    
+    return pathname.startsWith('/chat');
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/chat/{id}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/chat\/([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['文心一言', '文心', 'ERNIE Bot', 'ERNIE']);
+  },
+
+  /**
+   * 获取页面中所有的「用户问题 + AI 回答」配对
+   */
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const pairs: PromptAnswerPair[] = [];
+    
+    /**
+     * 辅助函数：计算元素相对于文档顶部的偏移量
+     */
+    const getTopOffset = (element: HTMLElement): number => {
+      const rect = element.getBoundingClientRect();
+      const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+      return rect.top + scrollTop;
+    };
+
+    const userMessages = findUserMessages(root);
+
+    // 构建配对
+    const nextId = createPairIdGenerator('ernie');
+    userMessages.forEach((userMsg, index) => {
+      const promptText = extractPromptContent(userMsg);
+      
+      // 一问一答通常位于同一个对话卡片中；流式输出时回答节点可能还不存在
+      let answerNode = userMsg;
+      const card = userMsg.closest(getSiteSelector('ernie', 'card'));
+      const answer = card?.querySelector(getSiteSelector('ernie', 'answerInCard'));
+      if (answer instanceof HTMLElement && !answer.contains(userMsg)) {
+        answerNode = answer;
+      } else {
+        // 没有卡片容器时，向后查找到下一条提问为止
+        let nextSibling = userMsg.nextElementSibling;
+        const nextPrompt = userMessages[index + 1];
+        while (nextSibling && !(nextPrompt && nextSibling.contains(nextPrompt))) {
+          if (nextSibling.matches(getSiteSelector('ernie', 'answerSibling'))) {
+            answerNode = nextSibling as HTMLElement;
+            break;
+          }
+          nextSibling = nextSibling.nextElementSibling;
+        }
+      }
+      
+      pairs.push({
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-chat-id', 'data-message-id'])),
+        promptNode: userMsg,
+        promptText: promptText,
+        answerNode: answerNode,
+        topOffset: getTopOffset(userMsg)
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return findUserMessages(root).length;
+  },
+
+  /**
+   * 生成回答时显示停止生成按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('ernie', 'generating'));
+  }
+};
@@ -1,53 +1,109 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractElementTitle, extractPromptContent, NEW_CHAT_CONVERSATION_ID, readTurnVariant, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 export const geminiAdapter: SiteAdapter = {
   name: 'Gemini',
+
+  get diagnosticSelectors() {
+    return getSiteSelector('gemini', 'userMessage').split(',').map(selector => selector.trim());
+  },
   
   isSupported(location: Location): boolean {
     return location.hostname === 'gemini.google.com' ||
            location.hostname === 'www.gemini.google.com';
   },
 
+  /**
+   * 从 URL 提取对话 ID
+   * - /app/{id}
+   * - /gem/{gem_id}/{id}
+   * /app 和 /gem/{gem_id} 本身是新对话；多账号时路径带有 /u/{n}/ 前缀，需先去掉
+   */
+  getConversationId(location: Location): string | null {
+    const pathname = location.pathname.replace(/^\/u\/\d+(?=\/)/, '');
+    if (/^\/(?:app|gem\/[^/]+)\/?$/.test(pathname)) return NEW_CHAT_CONVERSATION_ID;
+
+    const match = pathname.match(/^\/app\/([a-zA-Z0-9_-]+)/) ||
+                  pathname.match(/^\/gem\/[^/]+\/([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+
+  /**
+   * 从 URL 提取分享 ID：/share/{id}
+   * g.co/gemini/share/{id} 短链接会跳转到 gemini.google.com/share/{id}
+   */
+  getShareId(location: Location): string | null {
+    const pathname = location.pathname.replace(/^\/u\/\d+(?=\/)/, '');
+    const match = pathname.match(/^\/share\/([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractElementTitle(doc, getSiteSelector('gemini', 'title')) ||
+           extractDocumentTitle(doc, ['Gemini', 'Google Gemini']);
+  },
+
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
     
-    // Gemini 的用户消息选择器
-    const userSelectors = [
-      'user-query', // 标签名
-      '.user-query', // 类名
-      '[data-test-id="user-query"]' // 属性
-    ];
-    
-    const userMessages = Array.from(root.querySelectorAll(userSelectors.join(',')));
+    // Gemini 的用户消息选择器（标签名、类名、属性）
+    const userMessages = Array.from(root.querySelectorAll(getSiteSelector('gemini', 'userMessage')));
 
-    userMessages.forEach((msg, index) => {
+    const nextId = createPairIdGenerator('gemini');
+    userMessages.forEach((msg) => {
       const element = msg as HTMLElement;
+      const promptText = extractPromptContent(element);
+      // 每轮对话包裹在带 id 的 .conversation-container 中
+      const container = element.closest(getSiteSelector('gemini', 'turn'));
+      const nativeId = container?.id || null;
       const rect = element.getBoundingClientRect();
       const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
       const topOffset = rect.top + scrollTop;
 
+      // 回答是同一轮中的 model-response，还没有回答时不存在
+      const response = container?.querySelector(getSiteSelector('gemini', 'modelResponse'));
+      const answerNode = response instanceof HTMLElement ? response : element;
+
+      // 编辑提问后提问下方出现版本切换器；重新生成的草稿切换器在回答中
+      const variant = readTurnVariant(
+        element,
+        response,
+        element.querySelector(getSiteSelector('gemini', 'queryText'))
+      );
+
       pairs.push({
-        id: `gemini-turn-${index}`,
+        id: nextId(promptText, nativeId),
         promptNode: element,
-        promptText: extractPromptContent(element),
-        answerNode: element,
-        topOffset
+        promptText,
+        answerNode,
+        topOffset,
+        ...(variant ? { variant } : {})
       });
     });
 
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('gemini', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const userSelectors = [
-      'user-query', // 标签名
-      '.user-query', // 类名
-      '[data-test-id="user-query"]' // 属性
-    ];
     // Gemini 的选择器比较明确，通常不需要额外的 filter
-    return root.querySelectorAll(userSelectors.join(',')).length;
+    return root.querySelectorAll(getSiteSelector('gemini', 'userMessage')).length;
+  },
+
+  /**
+   * 生成回答时发送按钮变为停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('gemini', 'generating'));
   }
 };
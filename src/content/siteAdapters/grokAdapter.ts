@@ -1,4 +1,6 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 function getTopOffset(element: HTMLElement): number {
   const rect = element.getBoundingClientRect();
@@ -18,10 +20,16 @@ function isValidPromptNode(element: HTMLElement): boolean {
 }
 
 function getCurrentGrokMessages(root: Document | HTMLElement): HTMLElement[] {
-  return Array.from(root.querySelectorAll('[data-testid="user-message"], [data-testid="assistant-message"]'))
+  const selector = `${getSiteSelector('grok', 'userMessage')}, ${getSiteSelector('grok', 'assistantMessage')}`;
+  return Array.from(root.querySelectorAll(selector))
     .filter((el): el is HTMLElement => el instanceof HTMLElement);
 }
 
+function getCurrentUserMessages(messages: HTMLElement[]): HTMLElement[] {
+  const userSelector = getSiteSelector('grok', 'userMessage');
+  return messages.filter(message => message.matches(userSelector) && isValidPromptNode(message));
+}
+
 /**
  * Grok AI 站点适配器
  * 支持 grok.com 的对话页面
@@ -32,6 +40,14 @@ function getCurrentGrokMessages(root: Document | HTMLElement): HTMLElement[] {
  */
 export const grokAdapter: SiteAdapter = {
   name: 'Grok',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('grok', 'userMessage'),
+      getSiteSelector('grok', 'assistantMessage'),
+      getSiteSelectorList('grok', 'legacyUserMessage')[0]
+    ];
+  },
   
   /**
    * 判断是否是 Grok 对话页面
@@ -53,39 +69,56 @@ export const grokAdapter: SiteAdapter = {
     return isConversationPage || isProjectChatPage;
   },
 
+  /**
+   * 从 URL 提取对话 ID
+   * - 普通对话: /c/{id}
+   * - 项目对话: /project/{project_id}?chat={id}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/c\/([a-zA-Z0-9-]+)/);
+    if (match) return match[1];
+
+    return new URLSearchParams(location.search).get('chat');
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Grok']);
+  },
+
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
    */
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
+    const nextId = createPairIdGenerator('grok');
 
     const allMessages = getCurrentGrokMessages(root);
-    const currentUserMessages = allMessages.filter(message =>
-      message.getAttribute('data-testid') === 'user-message' && isValidPromptNode(message)
-    );
+    const currentUserMessages = getCurrentUserMessages(allMessages);
 
     if (currentUserMessages.length > 0) {
-      currentUserMessages.forEach((userMsg, index) => {
+      const userSelector = getSiteSelector('grok', 'userMessage');
+      const assistantSelector = getSiteSelector('grok', 'assistantMessage');
+      currentUserMessages.forEach((userMsg) => {
+        const promptText = extractPromptContent(userMsg);
         const msgIndex = allMessages.indexOf(userMsg);
         let answerNode = userMsg;
 
         for (let i = msgIndex + 1; i < allMessages.length; i++) {
           const nextMsg = allMessages[i];
-          const testId = nextMsg.getAttribute('data-testid');
 
-          if (testId === 'assistant-message') {
+          if (nextMsg.matches(assistantSelector)) {
             answerNode = nextMsg;
             break;
           }
-          if (testId === 'user-message') {
+          if (nextMsg.matches(userSelector)) {
             break;
           }
         }
 
         pairs.push({
-          id: `grok-turn-${index}`,
+          id: nextId(promptText),
           promptNode: userMsg,
-          promptText: extractPromptContent(userMsg),
+          promptText,
           answerNode,
           topOffset: getTopOffset(userMsg)
         });
@@ -94,20 +127,10 @@ export const grokAdapter: SiteAdapter = {
       return pairs;
     }
 
-    // Grok 可能使用的用户消息选择器
-    const userMessageSelectors = [
-      '[data-message-author-role="user"]',
-      '.user-message',
-      'div[class*="user"][class*="message"]',
-      '[role="user"]',
-      'div[data-sender="user"]',
-      'div[data-role="user"]'
-    ];
-
     let userMessages: HTMLElement[] = [];
     
-    // 尝试各种选择器
-    for (const selector of userMessageSelectors) {
+    // 尝试 Grok 可能使用的各种用户消息选择器
+    for (const selector of getSiteSelectorList('grok', 'legacyUserMessage')) {
       const found = root.querySelectorAll(selector);
       if (found.length > 0) {
         userMessages = Array.from(found)
@@ -137,11 +160,11 @@ export const grokAdapter: SiteAdapter = {
     }
 
     // 构建配对
-    userMessages.forEach((userMsg, index) => {
+    userMessages.forEach((userMsg) => {
       const promptText = extractPromptContent(userMsg);
       
       pairs.push({
-        id: `grok-legacy-turn-${index}`,
+        id: nextId(promptText),
         promptNode: userMsg,
         promptText: promptText,
         answerNode: userMsg, // 暂时指向自己，跳转主要依赖 promptNode
@@ -152,27 +175,23 @@ export const grokAdapter: SiteAdapter = {
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('grok', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const currentMessages = getCurrentGrokMessages(root).filter(message =>
-      message.getAttribute('data-testid') === 'user-message' && isValidPromptNode(message)
-    );
+    const currentMessages = getCurrentUserMessages(getCurrentGrokMessages(root));
     if (currentMessages.length > 0) {
       return currentMessages.length;
     }
 
-    const selectors = [
-      '[data-message-author-role="user"]',
-      '.user-message',
-      'div[class*="user"][class*="message"]',
-      '[role="user"]',
-      'div[data-sender="user"]',
-      'div[data-role="user"]'
-    ].join(',');
-    
-    const elements = root.querySelectorAll(selectors);
+    const elements = root.querySelectorAll(getSiteSelector('grok', 'legacyUserMessage'));
     if (elements.length > 0) {
       return Array.from(elements).filter(el =>
         el instanceof HTMLElement && isValidPromptNode(el)
@@ -192,5 +211,12 @@ export const grokAdapter: SiteAdapter = {
     }
     
     return count;
+  },
+
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('grok', 'generating'));
   }
 };
@@ -0,0 +1,100 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, NEW_CHAT_CONVERSATION_ID, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+
+/**
+ * HuggingChat 站点适配器
+ * 支持 huggingface.co/chat 的对话页面
+ *
+ * URL 格式：
+ * - 对话页面: https://huggingface.co/chat/conversation/{conversation_id}
+ * - 新对话: https://huggingface.co/chat/
+ *
+ * 每条消息都带有 data-message-id 和 data-message-role（user / assistant）
+ */
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll(getSiteSelector('huggingchat', 'message')))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement);
+}
+
+function isUserMessage(element: HTMLElement): boolean {
+  if (!element.matches(getSiteSelector('huggingchat', 'userMessage'))) return false;
+
+  const text = element.textContent?.trim() || '';
+  return text.length > 0 || !!element.querySelector('img, pre, code');
+}
+
+export const huggingChatAdapter: SiteAdapter = {
+  name: 'HuggingChat',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('huggingchat', 'message'),
+      getSiteSelector('huggingchat', 'userMessage'),
+      getSiteSelector('huggingchat', 'assistantMessage')
+    ];
+  },
+
+  isSupported(location: Location): boolean {
+    return location.hostname === 'huggingface.co' && location.pathname.startsWith('/chat');
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/chat/conversation/{id}；/chat 本身是新对话
+   */
+  getConversationId(location: Location): string | null {
+    if (/^\/chat\/?$/.test(location.pathname)) return NEW_CHAT_CONVERSATION_ID;
+
+    const match = location.pathname.match(/^\/chat\/conversation\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['HuggingChat', 'New Chat']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const pairs: PromptAnswerPair[] = [];
+    const messages = getMessages(root);
+    const nextId = createPairIdGenerator('huggingchat');
+    const assistantSelector = getSiteSelector('huggingchat', 'assistantMessage');
+
+    messages.forEach((message, index) => {
+      if (!isUserMessage(message)) return;
+
+      const nextMsg = messages[index + 1];
+      const answerNode = nextMsg && nextMsg.matches(assistantSelector) ? nextMsg : message;
+      const promptText = extractPromptContent(message);
+
+      pairs.push({
+        id: nextId(promptText, message.dataset.messageId),
+        promptNode: message,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(message)
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getMessages(root).filter(isUserMessage).length;
+  },
+
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('huggingchat', 'generating'));
+  }
+};
@@ -1,18 +1,69 @@
+/**
+ * 一轮对话的版本信息（编辑提问或重新生成回答后出现的「2 / 3」切换器）
+ */
+export interface TurnVariant {
+  /** 版本总数 */
+  count: number;
+  /** 当前显示的版本（从 1 开始） */
+  active: number;
+  /** 版本是否由编辑提问产生（否则为重新生成回答） */
+  edited: boolean;
+}
+
+/**
+ * 提问中的附件
+ */
+export interface PromptAttachment {
+  /** 文件名（站点未显示时为空字符串） */
+  name: string;
+  /** 文件类型（扩展名的大写形式，例如 PDF；未知时为空字符串） */
+  type: string;
+}
+
+/**
+ * 提问的结构化摘要，用于按界面语言显示提问内容
+ */
+export interface PromptSummary {
+  /** 去掉附件、按钮等界面元素后的纯文本 */
+  text: string;
+  /** 附件列表 */
+  attachments: PromptAttachment[];
+  /** 图片数量 */
+  imageCount: number;
+  /** 代码块数量 */
+  codeBlockCount: number;
+  /** 代码块声明的语言（去重） */
+  codeLanguages: string[];
+  /** 是否包含图表（canvas / 大尺寸 svg） */
+  hasChart: boolean;
+  /** 文本是否被截断（超出长度上限，或站点折叠了长提问） */
+  truncated: boolean;
+}
+
 /**
  * Prompt-Answer 成对数据结构
  * 用于时间线导航，记录用户问题和对应的 AI 回答
  */
 export interface PromptAnswerPair {
-  /** 对话内唯一 ID（用于标记等功能） */
+  /**
+   * 对话内唯一且稳定的 ID（用于标记、收藏等功能）
+   * 由 createPairIdGenerator 生成，不随索引变化
+   */
   id: string;
   /** 用户问题所在的 DOM 节点 */
   promptNode: HTMLElement;
-  /** 用户问题的文本内容 */
+  /** 用户问题的文本内容（用于生成 ID 和兼容旧数据，显示时优先使用 promptSummary） */
   promptText: string;
+  /** 用户问题的结构化摘要（适配器未提供时由索引管理器提取） */
+  promptSummary?: PromptSummary;
   /** 对应 AI 回答的 DOM 节点 */
   answerNode: HTMLElement;
   /** 问题在文档中的位置（用于排序） */
   topOffset: number;
+  /** 版本信息（仅在该轮存在多个版本时提供） */
+  variant?: TurnVariant;
+  /** 回答引用的来源数量（仅展示引用来源的站点提供，例如 Perplexity） */
+  sourceCount?: number;
 }
 
 /**
@@ -32,6 +83,12 @@ export interface SiteAdapter {
    * 判断当前 URL 是否支持此适配器
    */
   isSupported(location: Location): boolean;
+
+  /**
+   * 通过页面结构（DOM 指纹）判断当前页面是否为此站点
+   * 用于部署在任意域名上的开源前端，仅对自定义网址调用
+   */
+  matchesDocument?(doc: Document): boolean;
   
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
@@ -53,6 +110,43 @@ export interface SiteAdapter {
    * 如果未实现，IndexManager 将回退到 getPromptAnswerPairs().length
    */
   getPromptCount?(root: Document | HTMLElement): number;
+
+  /**
+   * 最后一个回答是否仍在生成（流式输出中）
+   * 通常根据停止按钮或流式输出标记判断；未实现时不显示生成状态
+   */
+  isGenerating?(doc: Document): boolean;
+
+  /**
+   * 从 URL 中提取对话 ID
+   * 返回 null 时由内容脚本使用默认的 URL 解析逻辑
+   */
+  getConversationId?(location: Location): string | null;
+
+  /**
+   * 从 URL 中提取只读分享页的分享 ID
+   * 返回非空时当前页面按分享对话处理（对话 ID 加 share- 前缀，收藏时带分享标记）
+   */
+  getShareId?(location: Location): string | null;
+
+  /**
+   * 获取站点自身显示的对话标题（侧边栏或文档标题）
+   * 用于收藏标题；返回 null 时回退到第一个提问的文本
+   */
+  getConversationTitle?(doc: Document): string | null;
+
+  /**
+   * 适配器依赖的核心选择器
+   * 仅用于健康诊断：页面结构改版时统计各选择器的命中数
+   */
+  diagnosticSelectors?: string[];
+
+  /**
+   * 消息是否可能渲染在 open Shadow DOM 或同源 iframe 中
+   * 为 true 时，内容脚本会用深度查询寻找根节点并监听这些子树的变化；
+   * 适配器自身的查询需要改用 dom/deepQuery 中的函数
+   */
+  usesDeepQuery?: boolean;
   
   /**
    * 适配器名称
@@ -70,7 +164,19 @@ import { kimiAdapter } from './kimiAdapter';
 import { qwenAdapter } from './qwenAdapter';
 import { doubaoAdapter } from './doubaoAdapter';
 import { chatglmAdapter } from './chatglmAdapter';
-import { customSiteAdapter } from './customSiteAdapter';
+import { perplexityAdapter } from './perplexityAdapter';
+import { copilotAdapter } from './copilotAdapter';
+import { mistralAdapter } from './mistralAdapter';
+import { huggingChatAdapter } from './huggingChatAdapter';
+import { yuanbaoAdapter } from './yuanbaoAdapter';
+import { ernieAdapter } from './ernieAdapter';
+import { openWebUIAdapter } from './openWebUIAdapter';
+import { libreChatAdapter } from './libreChatAdapter';
+import { lobeChatAdapter } from './lobeChatAdapter';
+import { customSiteAdapter, createRuleBasedAdapter } from './customSiteAdapter';
+import { findCustomDomain, type CustomSiteRulesMap } from '../../utils/customSiteRules';
+import type { SiteOverridesMap } from '../../utils/siteOverrides';
+import { hashString } from '../../utils/hash';
 
 /**
  * 所有已注册的适配器列表
@@ -85,16 +191,72 @@ const adapters: SiteAdapter[] = [
   kimiAdapter,
   qwenAdapter,
   doubaoAdapter,
-  chatglmAdapter
+  chatglmAdapter,
+  perplexityAdapter,
+  copilotAdapter,
+  mistralAdapter,
+  huggingChatAdapter,
+  yuanbaoAdapter,
+  ernieAdapter
+];
+
+/**
+ * 自托管的开源前端适配器
+ * 域名不固定，对自定义网址按 DOM 指纹（matchesDocument）选择
+ */
+const fingerprintAdapters: SiteAdapter[] = [
+  openWebUIAdapter,
+  libreChatAdapter,
+  lobeChatAdapter
 ];
 
+/**
+ * 创建自定义站点适配器：该域名配置了规则时使用规则适配器，否则使用通用适配器
+ */
+function createCustomAdapter(domain: string, customRules: CustomSiteRulesMap): SiteAdapter {
+  const rules = customRules[domain];
+  if (rules) {
+    return createRuleBasedAdapter(rules);
+  }
+
+  // 我们可以克隆一个实例并覆盖其 isSupported 方法（虽然在这里不是必须的，因为已经匹配了）
+  const adapter = Object.create(customSiteAdapter);
+  adapter.isSupported = () => true;
+  return adapter;
+}
+
 /**
  * 根据当前 URL 获取合适的适配器
  * @param location - 当前页面的 location 对象
  * @param customUrls - 可选的自定义 URL 列表
- * @returns 找到的适配器，如果没有匹配则返回 null
+ * @param customRules - 可选的自定义站点规则（按域名索引）
+ * @param siteOverrides - 可选的按域名覆盖设置（停用、强制适配器、自定义规则），优先于其他匹配
+ * @param doc - 用于匹配 DOM 指纹的文档
+ * @returns 找到的适配器，如果没有匹配或该域名已停用则返回 null
  */
-export function getActiveAdapter(location: Location, customUrls: string[] = []): SiteAdapter | null {
+export function getActiveAdapter(
+  location: Location,
+  customUrls: string[] = [],
+  customRules: CustomSiteRulesMap = {},
+  siteOverrides: SiteOverridesMap = {},
+  doc: Document = document
+): SiteAdapter | null {
+  // 0. 检查该域名的覆盖设置
+  const override = siteOverrides[location.hostname];
+  if (override?.mode === 'disabled') {
+    return null;
+  }
+  if (override?.mode === 'adapter') {
+    // 适配器被移除或改名时忽略该设置，回到自动选择
+    const forced = getAllAdapters().find(adapter => adapter.name === override.adapterName);
+    if (forced) return forced;
+  }
+  if (override?.mode === 'custom') {
+    // 规则按自定义网址保存；没有为该域名配置规则时使用通用适配器
+    const ruleDomain = findCustomDomain(location.hostname, Object.keys(customRules));
+    return createCustomAdapter(ruleDomain || location.hostname, customRules);
+  }
+
   // 1. 检查内置适配器
   for (const adapter of adapters) {
     if (adapter.isSupported(location)) {
@@ -103,38 +265,342 @@ export function getActiveAdapter(location: Location, customUrls: string[] = []):
   }
   
   // 2. 检查自定义 URL
-  if (customUrls.length > 0) {
-    const hostname = location.hostname;
-    if (customUrls.some(url => {
-      // 完全匹配
-      if (hostname === url) return true;
-      // 子域名匹配：hostname 以 .url 结尾（例如 www.example.com 匹配 example.com）
-      if (hostname.endsWith('.' + url)) return true;
-      // 反向匹配：url 以 .hostname 结尾（例如 example.com 匹配 www.example.com）
-      if (url.endsWith('.' + hostname)) return true;
-      return false;
-    })) {
-      // 使用通用适配器
-      // 我们可以克隆一个实例并覆盖其 isSupported 方法（虽然在这里不是必须的，因为已经匹配了）
-      const adapter = Object.create(customSiteAdapter);
-      adapter.isSupported = () => true;
-      return adapter;
+  const domain = findCustomDomain(location.hostname, customUrls);
+  if (domain) {
+    // 2.1 页面结构符合已知的开源前端时，使用对应的适配器（该域名配置了规则时，规则优先）
+    const fingerprintAdapter = !customRules[domain] && fingerprintAdapters.find(adapter => adapter.matchesDocument?.(doc));
+    if (fingerprintAdapter) {
+      return fingerprintAdapter;
     }
+
+    // 2.2 否则使用规则适配器或通用适配器
+    return createCustomAdapter(domain, customRules);
   }
   
   return null;
 }
 
+/**
+ * 新对话尚未分配正式 ID 时的占位键
+ * 内容脚本会把它替换为每个新对话独立的临时 ID，不直接用于存储
+ */
+export const NEW_CHAT_CONVERSATION_ID = 'new-chat';
+
+/**
+ * 通用的对话 ID 解析（适配器未声明或无法提取时使用）
+ * 也是旧版本存储数据所用的键，迁移时用于定位旧数据
+ */
+export function getDefaultConversationId(location: Location): string {
+  const pathname = location.pathname;
+
+  // 尝试从 URL 匹配 /c/UUID (ChatGPT)
+  const matchC = pathname.match(/\/c\/([a-zA-Z0-9-]+)/);
+  if (matchC && matchC[1]) {
+    return matchC[1];
+  }
+
+  // 尝试从 URL 匹配 /a/chat/s/UUID (DeepSeek)
+  const matchS = pathname.match(/\/s\/([a-zA-Z0-9-]+)/);
+  if (matchS && matchS[1]) {
+    return matchS[1];
+  }
+
+  // 根路径通常是新对话，返回占位键，其余使用 pathname
+  return pathname === '/' ? NEW_CHAT_CONVERSATION_ID : pathname;
+}
+
+/**
+ * 分享对话的 ID 前缀，避免与分享者自己的对话 ID 混用
+ */
+export const SHARED_CONVERSATION_PREFIX = 'share-';
+
+/**
+ * 获取当前页面的对话 ID：分享页使用分享 ID，其余优先使用适配器声明的提取规则
+ */
+export function resolveConversationId(adapter: SiteAdapter | null, location: Location): string {
+  const shareId = adapter?.getShareId?.(location);
+  if (shareId) {
+    return SHARED_CONVERSATION_PREFIX + shareId;
+  }
+  return adapter?.getConversationId?.(location) || getDefaultConversationId(location);
+}
+
+/**
+ * 获取分享页的链接（去掉查询参数和锚点），不是分享页时返回 null
+ */
+export function getShareUrl(adapter: SiteAdapter | null, location: Location): string | null {
+  return adapter?.getShareId?.(location) ? `${location.origin}${location.pathname}` : null;
+}
+
+/**
+ * 从文档标题中提取对话标题
+ * 去掉「标题 - 站点名」中的站点名部分；只剩站点名或标语时说明是新对话/首页，返回 null
+ * @param genericTitles - 站点名及首页标题中出现的固定片段
+ */
+export function extractDocumentTitle(doc: Document, genericTitles: string[]): string | null {
+  const generic = genericTitles.map(title => title.toLowerCase());
+  const parts = doc.title
+    .split(/\s+[-|–—·]\s+/)
+    .map(part => part.trim())
+    .filter(part => part && !generic.includes(part.toLowerCase()));
+
+  return parts.length > 0 ? parts.join(' - ') : null;
+}
+
+/**
+ * 通用的「正在生成」标记：常见前端的停止按钮和流式输出标记
+ * 用于没有站点专用选择器的自托管前端和自定义网址
+ */
+export const GENERIC_GENERATING_SELECTOR = [
+  '[data-testid="stop-button"]',
+  '[data-testid="stop-generation-button"]',
+  'button[aria-label="Stop generating"]',
+  'button[aria-label="Stop generation"]',
+  'button[aria-label="Stop"]',
+  '[data-is-streaming="true"]',
+  '.result-streaming'
+].join(', ');
+
+/**
+ * 从页面元素中读取对话标题（例如侧边栏中当前选中的对话）
+ */
+export function extractElementTitle(doc: Document, selector: string): string | null {
+  const text = doc.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+/**
+ * 判断是否为内置适配器（自定义站点适配器不参与健康诊断）
+ */
+export function isBuiltInAdapter(adapter: SiteAdapter): boolean {
+  return adapters.includes(adapter) || fingerprintAdapters.includes(adapter);
+}
+
+/**
+ * 判断是否为自定义网址的通用适配器（按规则构建的适配器除外）
+ * 页面尚未渲染完成时 DOM 指纹可能还匹配不上，会先回退到通用适配器
+ */
+export function isGenericCustomAdapter(adapter: SiteAdapter): boolean {
+  return Object.getPrototypeOf(adapter) === customSiteAdapter;
+}
+
 /**
  * 获取所有已注册的适配器
  */
 export function getAllAdapters(): SiteAdapter[] {
-  return [...adapters];
+  return [...adapters, ...fingerprintAdapters];
+}
+
+/**
+ * 规范化提问文本，用于生成内容指纹
+ */
+function normalizePromptText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, 500);
+}
+
+/**
+ * 创建配对 ID 生成器（每次扫描创建一个）
+ * 优先使用站点原生的消息 ID；没有时使用规范化后的提问文本指纹，
+ * 文本相同的重复提问按出现顺序追加序号
+ * @param prefix - 站点前缀，保证 ID 不会是纯数字（纯数字为旧版按索引存储的数据）
+ */
+export function createPairIdGenerator(prefix: string): (promptText: string, nativeId?: string | null) => string {
+  const seen = new Map<string, number>();
+
+  return (promptText: string, nativeId?: string | null): string => {
+    const base = nativeId
+      ? `${prefix}-m-${nativeId}`
+      : `${prefix}-t-${hashString(normalizePromptText(promptText))}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base}-${count}` : base;
+  };
+}
+
+/**
+ * 查找元素自身或祖先节点上的原生消息 ID
+ * @param attributes - 按优先级排列的属性名
+ */
+export function findNativeMessageId(element: HTMLElement, attributes: string[]): string | null {
+  for (const attr of attributes) {
+    const value = element.closest(`[${attr}]`)?.getAttribute(attr);
+    if (value) return value;
+  }
+  return null;
+}
+
+/** 版本切换器中的计数文本，例如「2 / 3」 */
+const VARIANT_COUNTER_PATTERN = /^(\d+)\s*\/\s*(\d+)$/;
+
+/**
+ * 在一轮对话的容器中查找版本切换器的计数（「2 / 3」）
+ * 只检查没有子元素的短文本节点，并跳过正文中的代码和 Markdown 内容
+ * @param exclude - 不参与查找的子树（例如提问正文，避免把内容为「1/2」的提问当成切换器）
+ */
+export function findVariantCounter(
+  scope: Element | null | undefined,
+  exclude?: Element | null
+): { active: number; count: number } | null {
+  if (!scope) return null;
+
+  const candidates = scope.querySelectorAll('span, div');
+  for (let i = 0; i < candidates.length; i++) {
+    const el = candidates[i];
+    if (el.children.length > 0) continue;
+
+    const match = (el.textContent || '').trim().match(VARIANT_COUNTER_PATTERN);
+    if (!match || el.closest('pre, code, .markdown, .prose') || exclude?.contains(el)) continue;
+
+    const active = parseInt(match[1], 10);
+    const count = parseInt(match[2], 10);
+    if (count > 1 && active >= 1 && active <= count) {
+      return { active, count };
+    }
+  }
+  return null;
+}
+
+/**
+ * 读取一轮对话的版本信息
+ * 提问上的切换器说明提问被编辑过；否则查看回答上的切换器（重新生成）
+ * @param promptScope - 提问所在的容器
+ * @param answerScope - 回答所在的容器
+ * @param promptContent - 提问正文节点，查找时跳过
+ */
+export function readTurnVariant(
+  promptScope: Element | null | undefined,
+  answerScope: Element | null | undefined,
+  promptContent?: Element | null
+): TurnVariant | undefined {
+  const promptCounter = findVariantCounter(promptScope, promptContent);
+  if (promptCounter) {
+    return { ...promptCounter, edited: true };
+  }
+
+  const answerCounter = answerScope && answerScope !== promptScope ? findVariantCounter(answerScope) : null;
+  return answerCounter ? { ...answerCounter, edited: false } : undefined;
+}
+
+/**
+ * 判断两个版本信息是否指向同一版本
+ */
+export function isSameVariant(a: TurnVariant | undefined, b: TurnVariant | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return a.active === b.active && a.count === b.count && a.edited === b.edited;
+}
+
+/** 摘要文本的长度上限 */
+const MAX_SUMMARY_TEXT_LENGTH = 500;
+
+/** 附件卡片的常见标记 */
+const ATTACHMENT_SELECTOR = [
+  '[data-testid*="file"]',
+  '[data-testid*="attachment"]',
+  '[class*="attachment"]',
+  '[class*="file-"]',
+  '[aria-label*="File"]',
+  '[aria-label*="文件"]'
+].join(',');
+
+/** 附件卡片中的文件名，例如 report.final.pdf */
+const FILE_NAME_PATTERN = /([^\s/\\:*?"<>|]+\.([a-zA-Z0-9]{1,8}))(?![\w.])/;
+
+/** 摘要文本中不应包含的界面元素 */
+const NON_TEXT_SELECTOR = 'img, svg, canvas, button, [role="button"], [aria-hidden="true"], style, script';
+
+/**
+ * 读取附件卡片中的文件名和类型
+ */
+function readAttachment(element: Element): PromptAttachment {
+  const sources = [
+    element.getAttribute('title'),
+    element.getAttribute('aria-label'),
+    element.getAttribute('download'),
+    element.textContent
+  ];
+  for (const source of sources) {
+    const match = source?.match(FILE_NAME_PATTERN);
+    if (match) {
+      return { name: match[1], type: match[2].toUpperCase() };
+    }
+  }
+  return { name: '', type: '' };
+}
+
+/**
+ * 读取代码块声明的语言（language-xxx / lang-xxx 类名或 data-language 属性）
+ */
+function readCodeLanguage(pre: Element): string {
+  const attr = pre.getAttribute('data-language') || pre.querySelector('[data-language]')?.getAttribute('data-language');
+  if (attr) return attr.toLowerCase();
+
+  const nodes = [pre, ...Array.from(pre.querySelectorAll('code'))];
+  for (const node of nodes) {
+    const match = Array.from(node.classList).join(' ').match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/);
+    if (match) return match[1].toLowerCase();
+  }
+  return '';
+}
+
+/**
+ * 提取提问的结构化摘要：文本、附件、图片、代码块语言以及是否被截断
+ */
+export function extractPromptSummary(element: HTMLElement): PromptSummary {
+  // 只保留最外层的附件卡片
+  const attachmentNodes = Array.from(element.querySelectorAll(ATTACHMENT_SELECTOR));
+  const outerAttachments = attachmentNodes.filter(node => !attachmentNodes.some(other => other !== node && other.contains(node)));
+  const isInAttachment = (node: Element) => outerAttachments.some(attachment => attachment.contains(node));
+
+  const attachments: PromptAttachment[] = [];
+  outerAttachments.forEach(node => {
+    const attachment = readAttachment(node);
+    if (!attachment.name || !attachments.some(item => item.name === attachment.name)) {
+      attachments.push(attachment);
+    }
+  });
+
+  // 图片：排除附件卡片中的预览图和小图标
+  const imageCount = Array.from(element.querySelectorAll('img')).filter(img => {
+    if (isInAttachment(img)) return false;
+    const width = img.getBoundingClientRect().width;
+    return width === 0 || width >= 32;
+  }).length;
+
+  const codeBlocks = Array.from(element.querySelectorAll('pre'));
+  const codeLanguages: string[] = [];
+  codeBlocks.forEach(pre => {
+    const language = readCodeLanguage(pre);
+    if (language && !codeLanguages.includes(language)) codeLanguages.push(language);
+  });
+
+  const hasChart = !!element.querySelector('canvas') ||
+    Array.from(element.querySelectorAll('svg')).some(svg => !isInAttachment(svg) && svg.getBoundingClientRect().width >= 64);
+
+  // 文本：在副本上去掉附件卡片和按钮等界面元素
+  const clone = element.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll(ATTACHMENT_SELECTOR).forEach(node => node.remove());
+  clone.querySelectorAll(NON_TEXT_SELECTOR).forEach(node => node.remove());
+  const fullText = clone.textContent?.trim().replace(/\s+/g, ' ') || '';
+
+  // 站点折叠长提问时，节点内容被裁剪（line-clamp 或隐藏溢出）
+  const clamped = !!element.querySelector('[class*="line-clamp"]') ||
+    (element.scrollHeight > element.clientHeight + 1 && window.getComputedStyle(element).overflowY === 'hidden');
+
+  return {
+    text: fullText.slice(0, MAX_SUMMARY_TEXT_LENGTH),
+    attachments,
+    imageCount,
+    codeBlockCount: codeBlocks.length,
+    codeLanguages,
+    hasChart,
+    truncated: fullText.length > MAX_SUMMARY_TEXT_LENGTH || clamped
+  };
 }
 
 /**
  * 从 Prompt 节点中提取预览文本
  * 支持纯文本、图片、代码、图表等内容的识别
+ * 返回值参与生成配对 ID，为保持已保存的标记可用而保留原有输出；界面显示请使用 extractPromptSummary
  */
 export function extractPromptContent(element: HTMLElement): string {
   // 1. 尝试获取纯文本
@@ -1,4 +1,6 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 /**
  * Kimi（月之暗面）站点适配器
@@ -9,6 +11,10 @@ import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from '.
  */
 export const kimiAdapter: SiteAdapter = {
   name: 'Kimi',
+
+  get diagnosticSelectors() {
+    return getSiteSelectorList('kimi', 'userMessage');
+  },
   
   /**
    * 判断是否是 Kimi 对话页面
@@ -25,6 +31,18 @@ export const kimiAdapter: SiteAdapter = {
     return pathname.startsWith('/chat/');
   },
 
+  /**
+   * 从 URL 提取对话 ID：/chat/{id}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/chat\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Kimi', 'Kimi.ai', 'Kimi AI', 'Kimi 智能助手']);
+  },
+
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
    */
@@ -65,17 +83,10 @@ export const kimiAdapter: SiteAdapter = {
 
     // Kimi 的用户消息选择器
     // 根据 HTML 结构，用户消息在 .chat-content-item-user 内
-    const userMessageSelectors = [
-      '.chat-content-item-user',  // 主要选择器
-      '.segment-user',             // 备选选择器
-      '.segment-container',        // 容器选择器
-      '.user-content'              // 内容选择器
-    ];
-
     let userMessages: HTMLElement[] = [];
     
-    // 尝试各种选择器
-    for (const selector of userMessageSelectors) {
+    // 按优先级尝试各种选择器
+    for (const selector of getSiteSelectorList('kimi', 'userMessage')) {
       const found = root.querySelectorAll(selector);
       if (found.length > 0) {
         userMessages = Array.from(found).filter(el => 
@@ -88,19 +99,18 @@ export const kimiAdapter: SiteAdapter = {
     }
 
     // 构建配对
+    const nextId = createPairIdGenerator('kimi');
+    const assistantSelector = getSiteSelector('kimi', 'assistantMessage');
     userMessages.forEach((userMsg, index) => {
       const promptText = extractPromptContent(userMsg);
       
-      // 尝试查找对应的 AI 回答（在用户消息后面）
+      // 尝试查找对应的 AI 回答（在用户消息后面），遇到下一条提问说明还没有回答
       let answerNode = userMsg;
       let nextSibling = userMsg.nextElementSibling;
-      while (nextSibling) {
+      const nextPrompt = userMessages[index + 1];
+      while (nextSibling && !(nextPrompt && nextSibling.contains(nextPrompt))) {
         // 查找可能的 AI 回答容器（通常有 assistant 或 ai 相关的 class）
-        const classList = (nextSibling as HTMLElement).className || '';
-        if (classList.includes('assistant') || 
-            classList.includes('ai') ||
-            classList.includes('chat-content-item-assistant') ||
-            classList.includes('segment-assistant')) {
+        if (nextSibling.matches(assistantSelector)) {
           answerNode = nextSibling as HTMLElement;
           break;
         }
@@ -108,7 +118,7 @@ export const kimiAdapter: SiteAdapter = {
       }
       
       pairs.push({
-        id: `kimi-turn-${index}-${Date.now()}`,
+        id: nextId(promptText),
         promptNode: userMsg,
         promptText: promptText,
         answerNode: answerNode,
@@ -119,30 +129,37 @@ export const kimiAdapter: SiteAdapter = {
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('kimi', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const selectors = [
-      '.chat-content-item-user',
-      '.segment-user',
-      '.segment-container',
-      '.user-content'
-    ].join(',');
-    
-    const elements = root.querySelectorAll(selectors);
-    let count = 0;
-    
-    for (let i = 0; i < elements.length; i++) {
-      const el = elements[i] as HTMLElement;
-      // 简单的有效性检查
-      if (el.querySelector('textarea') || el.querySelector('form')) {
-        continue;
+    // 与 getPromptAnswerPairs 一致，只使用第一个有匹配的选择器，避免同一条消息的外层和内层被重复计数
+    for (const selector of getSiteSelectorList('kimi', 'userMessage')) {
+      const elements = root.querySelectorAll(selector);
+      if (elements.length > 0) {
+        let count = 0;
+        for (let i = 0; i < elements.length; i++) {
+          // 简单的有效性检查
+          if (!elements[i].querySelector('textarea, form')) count++;
+        }
+        return count;
       }
-      count++;
     }
-    
-    return count;
+    return 0;
+  },
+
+  /**
+   * 生成回答时发送按钮变为停止状态
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('kimi', 'generating'));
   }
 };
 
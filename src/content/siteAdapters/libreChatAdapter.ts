@@ -0,0 +1,131 @@
+import {
+  createPairIdGenerator,
+  extractDocumentTitle,
+  extractPromptContent,
+  GENERIC_GENERATING_SELECTOR,
+  NEW_CHAT_CONVERSATION_ID,
+  readTurnVariant,
+  type SiteAdapter,
+  type PromptAnswerPair
+} from './index';
+
+/**
+ * LibreChat 适配器
+ * 自托管的开源前端，部署在任意域名上，通过页面结构识别（见 matchesDocument）
+ *
+ * URL 格式：
+ * - 对话页面: https://{host}/c/{conversation_id}
+ * - 新对话: https://{host}/c/new
+ */
+
+/** 每条消息的容器，用户消息带 user-turn，回答带 agent-turn */
+const MESSAGE_SELECTOR = '.message-render, .user-turn, .agent-turn';
+
+/** 页面指纹：静态 HTML 中的应用描述，以及消息容器的 class */
+const FINGERPRINT_SELECTORS = [
+  'meta[name="description"][content*="LibreChat"]',
+  '.message-render',
+  '.user-turn, .agent-turn'
+];
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+/**
+ * 按文档顺序获取所有消息，只保留最外层的消息容器
+ */
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  const messages = Array.from(root.querySelectorAll(MESSAGE_SELECTOR))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement);
+  return messages.filter(el => !messages.some(other => other !== el && other.contains(el)));
+}
+
+function isUserMessage(element: HTMLElement): boolean {
+  return element.classList.contains('user-turn') || !!element.querySelector('.user-turn');
+}
+
+/**
+ * 获取用户消息的正文容器
+ * user-turn 的第一个子元素是发送者名称（h2，如 "You"），不能算进问题文本
+ */
+function getPromptContent(message: HTMLElement): HTMLElement {
+  const turn = message.classList.contains('user-turn')
+    ? message
+    : message.querySelector<HTMLElement>('.user-turn');
+  return turn?.querySelector<HTMLElement>(':scope > :not(h2)') || message;
+}
+
+export const libreChatAdapter: SiteAdapter = {
+  name: 'LibreChat',
+
+  diagnosticSelectors: [
+    '.message-render',
+    '.user-turn',
+    '.agent-turn'
+  ],
+
+  // 域名不固定，由 getActiveAdapter 对自定义网址调用 matchesDocument 选择
+  isSupported: () => false,
+
+  matchesDocument(doc: Document): boolean {
+    return doc.title === 'LibreChat' || FINGERPRINT_SELECTORS.some(selector => !!doc.querySelector(selector));
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/c/{id}；/c/new 为尚未保存的新对话
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/c\/([a-zA-Z0-9-]+)/);
+    if (!match) return null;
+    return match[1] === 'new' ? NEW_CHAT_CONVERSATION_ID : match[1];
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['LibreChat', 'New Chat']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const messages = getMessages(root);
+    const nextId = createPairIdGenerator('librechat');
+    const pairs: PromptAnswerPair[] = [];
+
+    messages.forEach((message, index) => {
+      if (!isUserMessage(message)) return;
+
+      const promptNode = getPromptContent(message);
+      const promptText = extractPromptContent(promptNode);
+      const nextMsg = messages[index + 1];
+      const answerNode = nextMsg && !isUserMessage(nextMsg) ? nextMsg : promptNode;
+      const variant = readTurnVariant(message, answerNode);
+
+      pairs.push({
+        // 消息容器的 id 即为 LibreChat 的 messageId
+        id: nextId(promptText, message.id || null),
+        promptNode,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(message),
+        ...(variant ? { variant } : {})
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getMessages(root).filter(isUserMessage).length;
+  },
+
+  /**
+   * 没有站点专用的标记，按常见的停止按钮判断
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(GENERIC_GENERATING_SELECTOR);
+  }
+};
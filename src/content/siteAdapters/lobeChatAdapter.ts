@@ -0,0 +1,134 @@
+import {
+  createPairIdGenerator,
+  extractDocumentTitle,
+  extractPromptContent,
+  GENERIC_GENERATING_SELECTOR,
+  NEW_CHAT_CONVERSATION_ID,
+  type SiteAdapter,
+  type PromptAnswerPair
+} from './index';
+
+/**
+ * LobeChat 适配器
+ * 自托管的开源前端，部署在任意域名上，通过页面结构识别（见 matchesDocument）
+ *
+ * URL 格式：
+ * - 对话页面: https://{host}/chat?session={session_id}&topic={topic_id}
+ * - 新话题: https://{host}/chat?session={session_id}（话题在发送第一条消息后才创建）
+ *
+ * 注意：消息列表是虚拟滚动的，只有视口附近的消息存在于 DOM 中
+ */
+
+/** 虚拟列表中的每一项 */
+const MESSAGE_SELECTOR = '[data-index]';
+
+/** 消息项中表示角色的标记 */
+const USER_MARKER_SELECTOR = '[data-role="user"], [class*="user-message"]';
+const ASSISTANT_MARKER_SELECTOR = '[data-role="assistant"], [class*="assistant-message"]';
+
+/** 页面指纹：Next.js 输出的应用名称 */
+const FINGERPRINT_SELECTORS = [
+  'meta[name="application-name"][content*="LobeChat"]',
+  'meta[property="og:site_name"][content*="LobeChat"]'
+];
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+/**
+ * 虚拟列表中尚未渲染的占位项没有内容；只有附件的提问和还没有输出的回答带有角色标记
+ */
+function isRenderedItem(element: HTMLElement): boolean {
+  return !!element.textContent?.trim() ||
+    !!element.querySelector(`${USER_MARKER_SELECTOR}, ${ASSISTANT_MARKER_SELECTOR}, img`);
+}
+
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  const messages = Array.from(root.querySelectorAll(MESSAGE_SELECTOR))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement && isRenderedItem(el));
+  return messages.filter(el => !messages.some(other => other !== el && other.contains(el)));
+}
+
+/**
+ * 判断消息项是否为用户消息
+ * 优先使用角色标记；没有标记时根据布局判断（用户消息的头像和气泡右对齐，容器为 row-reverse）
+ */
+function isUserMessage(element: HTMLElement): boolean {
+  if (element.querySelector(USER_MARKER_SELECTOR)) return true;
+  if (element.querySelector(ASSISTANT_MARKER_SELECTOR)) return false;
+
+  const item = element.firstElementChild;
+  return !!item && window.getComputedStyle(item).flexDirection === 'row-reverse';
+}
+
+export const lobeChatAdapter: SiteAdapter = {
+  name: 'LobeChat',
+
+  diagnosticSelectors: [
+    MESSAGE_SELECTOR,
+    USER_MARKER_SELECTOR,
+    ASSISTANT_MARKER_SELECTOR
+  ],
+
+  // 域名不固定，由 getActiveAdapter 对自定义网址调用 matchesDocument 选择
+  isSupported: () => false,
+
+  matchesDocument(doc: Document): boolean {
+    return /LobeChat/.test(doc.title) || FINGERPRINT_SELECTORS.some(selector => !!doc.querySelector(selector));
+  },
+
+  /**
+   * 对话 ID 在查询参数中：按话题区分；还没有话题时是新对话
+   */
+  getConversationId(location: Location): string | null {
+    if (!location.pathname.startsWith('/chat')) return null;
+
+    const topic = new URLSearchParams(location.search).get('topic');
+    return topic || NEW_CHAT_CONVERSATION_ID;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['LobeChat', 'LobeHub']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const messages = getMessages(root);
+    const nextId = createPairIdGenerator('lobechat');
+    const pairs: PromptAnswerPair[] = [];
+
+    messages.forEach((message, index) => {
+      if (!isUserMessage(message)) return;
+
+      const promptText = extractPromptContent(message);
+      const nextMsg = messages[index + 1];
+      const answerNode = nextMsg && !isUserMessage(nextMsg) ? nextMsg : message;
+
+      pairs.push({
+        id: nextId(promptText),
+        promptNode: message,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(message)
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getMessages(root).filter(isUserMessage).length;
+  },
+
+  /**
+   * 没有站点专用的标记，按常见的停止按钮判断
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(GENERIC_GENERATING_SELECTOR);
+  }
+};
@@ -0,0 +1,112 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, NEW_CHAT_CONVERSATION_ID, readTurnVariant, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector } from '../../utils/selectorBundle';
+
+/**
+ * Mistral Le Chat 站点适配器
+ * 支持 chat.mistral.ai 的对话页面
+ *
+ * URL 格式：
+ * - 对话页面: https://chat.mistral.ai/chat/{conversation_id}
+ * - 新对话: https://chat.mistral.ai/chat
+ */
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+function isValidPromptNode(element: HTMLElement): boolean {
+  if (element.querySelector('textarea, [contenteditable="true"], form')) {
+    return false;
+  }
+
+  const text = element.textContent?.trim() || '';
+  if (text.length > 0) return true;
+
+  return !!element.querySelector('img, svg, canvas, pre, code');
+}
+
+/**
+ * 按文档顺序获取所有消息（用户 + 回答）
+ */
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll(`${getSiteSelector('mistral', 'userMessage')}, ${getSiteSelector('mistral', 'assistantMessage')}`))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement);
+}
+
+function getUserMessages(root: Document | HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll(getSiteSelector('mistral', 'userMessage')))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement && isValidPromptNode(el));
+}
+
+export const mistralAdapter: SiteAdapter = {
+  name: 'Le Chat',
+
+  get diagnosticSelectors() {
+    return [
+      getSiteSelector('mistral', 'userMessage'),
+      getSiteSelector('mistral', 'assistantMessage')
+    ];
+  },
+
+  isSupported(location: Location): boolean {
+    return location.hostname === 'chat.mistral.ai';
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/chat/{uuid}；/chat 本身是新对话
+   */
+  getConversationId(location: Location): string | null {
+    if (/^\/chat\/?$/.test(location.pathname)) return NEW_CHAT_CONVERSATION_ID;
+
+    const match = location.pathname.match(/^\/chat\/([a-zA-Z0-9-]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Le Chat', 'Mistral AI', 'Le Chat Mistral']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const pairs: PromptAnswerPair[] = [];
+    const messages = getMessages(root);
+    const userMessages = getUserMessages(root);
+    const nextId = createPairIdGenerator('mistral');
+    const assistantSelector = getSiteSelector('mistral', 'assistantMessage');
+
+    userMessages.forEach((userMsg) => {
+      // 紧随其后的 assistant 消息即为回答；如果下一条仍是用户消息，说明还没有回答
+      const nextMsg = messages[messages.indexOf(userMsg) + 1];
+      const answerNode = nextMsg && nextMsg.matches(assistantSelector) ? nextMsg : userMsg;
+
+      const promptText = extractPromptContent(userMsg);
+      const variant = readTurnVariant(userMsg, answerNode);
+
+      pairs.push({
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-message-id'])),
+        promptNode: userMsg,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(userMsg),
+        ...(variant ? { variant } : {})
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getUserMessages(root).length;
+  },
+
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('mistral', 'generating'));
+  }
+};
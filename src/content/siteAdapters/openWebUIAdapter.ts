@@ -0,0 +1,112 @@
+import {
+  createPairIdGenerator,
+  extractDocumentTitle,
+  extractPromptContent,
+  GENERIC_GENERATING_SELECTOR,
+  readTurnVariant,
+  type SiteAdapter,
+  type PromptAnswerPair
+} from './index';
+
+/**
+ * Open WebUI 适配器
+ * 自托管的开源前端，部署在任意域名上，通过页面结构识别（见 matchesDocument）
+ *
+ * URL 格式：
+ * - 对话页面: https://{host}/c/{conversation_id}
+ * - 新对话: https://{host}/
+ */
+
+/** 每条消息（用户和回答）的容器：id="message-{messageId}" */
+const MESSAGE_SELECTOR = '#messages-container [id^="message-"]';
+
+/** 用户消息容器上的 class */
+const USER_MESSAGE_CLASS = 'user-message';
+
+/** 页面指纹：静态 HTML 中的应用名称，以及聊天页面特有的容器 */
+const FINGERPRINT_SELECTORS = [
+  'meta[name="apple-mobile-web-app-title"][content="Open WebUI"]',
+  '#chat-container #messages-container'
+];
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+/**
+ * 按文档顺序获取所有消息，只保留最外层的消息容器
+ */
+function getMessages(root: Document | HTMLElement): HTMLElement[] {
+  const messages = Array.from(root.querySelectorAll(MESSAGE_SELECTOR))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement);
+  return messages.filter(el => !messages.some(other => other !== el && other.contains(el)));
+}
+
+function isUserMessage(element: HTMLElement): boolean {
+  return element.classList.contains(USER_MESSAGE_CLASS) || !!element.querySelector(`.${USER_MESSAGE_CLASS}`);
+}
+
+export const openWebUIAdapter: SiteAdapter = {
+  name: 'Open WebUI',
+
+  diagnosticSelectors: [
+    '#messages-container',
+    MESSAGE_SELECTOR,
+    `.${USER_MESSAGE_CLASS}`
+  ],
+
+  // 域名不固定，由 getActiveAdapter 对自定义网址调用 matchesDocument 选择
+  isSupported: () => false,
+
+  matchesDocument(doc: Document): boolean {
+    return doc.title === 'Open WebUI' || FINGERPRINT_SELECTORS.some(selector => !!doc.querySelector(selector));
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Open WebUI', 'New Chat']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const messages = getMessages(root);
+    const nextId = createPairIdGenerator('openwebui');
+    const pairs: PromptAnswerPair[] = [];
+
+    messages.forEach((message, index) => {
+      if (!isUserMessage(message)) return;
+
+      const promptText = extractPromptContent(message);
+
+      // 紧随其后的非用户消息即为回答（多模型对比时取第一个）
+      const nextMsg = messages[index + 1];
+      const answerNode = nextMsg && !isUserMessage(nextMsg) ? nextMsg : message;
+      const variant = readTurnVariant(message, answerNode);
+
+      pairs.push({
+        id: nextId(promptText, message.id.replace(/^message-/, '')),
+        promptNode: message,
+        promptText,
+        answerNode,
+        topOffset: getTopOffset(message),
+        ...(variant ? { variant } : {})
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getMessages(root).filter(isUserMessage).length;
+  },
+
+  /**
+   * 没有站点专用的标记，按常见的停止按钮判断
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(GENERIC_GENERATING_SELECTOR);
+  }
+};
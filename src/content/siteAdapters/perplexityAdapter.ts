@@ -0,0 +1,203 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+
+/**
+ * Perplexity 站点适配器
+ * 支持 perplexity.ai 的对话（Thread）页面
+ *
+ * URL 格式：
+ * - 对话页面: https://www.perplexity.ai/search/{slug}
+ *
+ * 一个 Thread 由多轮「提问 → (Pro Search 步骤) → 回答 → 来源」组成，追问同样是新的一轮。
+ * 页面中没有包裹每一轮的稳定容器，因此按文档顺序扫描提问、回答和来源节点，
+ * 把回答和来源归到它前面最近的提问上；Pro Search 的步骤列表不匹配任何选择器，会被自然跳过
+ *
+ * 选择器（selectorBundle.json 的 perplexity 一节）：
+ * - query：提问节点（标题形式的首个提问和追问使用相同的结构）
+ * - answer：回答正文
+ * - sourceLink：引用来源链接，即正文中的角标和来源卡片
+ */
+
+/** 来源数量标签，例如「12 sources」「12 个来源」 */
+const SOURCE_COUNT_PATTERN = /^(\d+)\s*(?:sources?|个来源|来源)$/i;
+
+function getTopOffset(element: HTMLElement): number {
+  const rect = element.getBoundingClientRect();
+  const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+  return rect.top + scrollTop;
+}
+
+function isValidQueryNode(element: HTMLElement): boolean {
+  // 输入框和底部的「相关问题」推荐按钮不是提问
+  if (element.querySelector('textarea, [contenteditable="true"], form') || element.closest('button, form')) {
+    return false;
+  }
+  return !!element.textContent?.trim();
+}
+
+/**
+ * 只保留最外层的提问节点（多个选择器可能同时命中同一个提问的外层和内层）
+ */
+function getQueryNodes(root: Document | HTMLElement): HTMLElement[] {
+  const nodes = Array.from(root.querySelectorAll(getSiteSelector('perplexity', 'query')))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement && isValidQueryNode(el));
+  return nodes.filter(node => !nodes.some(other => other !== node && other.contains(node)));
+}
+
+/**
+ * 规范化来源链接，用于去重（同一来源会在正文中被多次引用）
+ */
+function normalizeSourceUrl(href: string): string | null {
+  try {
+    const url = new URL(href, window.location.href);
+    if (!/^https?:$/.test(url.protocol) || /(^|\.)perplexity\.ai$/.test(url.hostname)) return null;
+    return `${url.hostname}${url.pathname}`.replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取来源数量标签（来源面板折叠时只显示数量）
+ */
+function readSourceCountLabel(element: Element): number | null {
+  const candidates = element.querySelectorAll('span, div, button');
+  for (let i = 0; i < candidates.length; i++) {
+    const el = candidates[i];
+    if (el.children.length > 0) continue;
+    const match = (el.textContent || '').trim().match(SOURCE_COUNT_PATTERN);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
+
+/**
+ * 一轮对话中收集到的节点
+ */
+interface PerplexityTurn {
+  query: HTMLElement;
+  answer: HTMLElement | null;
+  sourceUrls: Set<string>;
+  sourceCountLabel: number | null;
+}
+
+/**
+ * 按文档顺序把回答和来源归到各自的提问上
+ */
+function collectTurns(root: Document | HTMLElement): PerplexityTurn[] {
+  const queries = getQueryNodes(root);
+  if (queries.length === 0) return [];
+
+  const turns: PerplexityTurn[] = queries.map(query => ({
+    query,
+    answer: null,
+    sourceUrls: new Set<string>(),
+    sourceCountLabel: null
+  }));
+
+  const answerSelector = getSiteSelector('perplexity', 'answer');
+  const selector = [getSiteSelector('perplexity', 'query'), answerSelector, getSiteSelector('perplexity', 'sourceLink')].join(',');
+  let current: PerplexityTurn | null = null;
+
+  root.querySelectorAll(selector).forEach(el => {
+    const queryIndex = queries.indexOf(el as HTMLElement);
+    if (queryIndex >= 0) {
+      current = turns[queryIndex];
+      return;
+    }
+    // 第一个提问之前的内容，或提问内部的节点
+    if (!current || current.query.contains(el)) return;
+
+    if (el.tagName === 'A') {
+      const url = normalizeSourceUrl((el as HTMLAnchorElement).getAttribute('href') || '');
+      if (url) current.sourceUrls.add(url);
+      return;
+    }
+
+    if (el.matches(answerSelector) && !current.answer && el instanceof HTMLElement) {
+      current.answer = el;
+    }
+  });
+
+  // 来源数量标签位于提问和回答之间（Pro Search 时位于步骤列表之后），在两次提问之间查找
+  // 还没有回答的一轮无法确定范围，向上查找会一直到根节点，读到前面几轮的标签
+  turns.forEach((turn, index) => {
+    const answer = turn.answer;
+    if (!answer) return;
+
+    const next = turns[index + 1]?.query;
+    let container: Element | null = turn.query.parentElement;
+    while (container && container !== root && !container.contains(answer)) {
+      container = container.parentElement;
+    }
+    if (container && (!next || !container.contains(next))) {
+      turn.sourceCountLabel = readSourceCountLabel(container);
+    }
+  });
+
+  return turns;
+}
+
+export const perplexityAdapter: SiteAdapter = {
+  name: 'Perplexity',
+
+  get diagnosticSelectors() {
+    return [
+      ...getSiteSelectorList('perplexity', 'query'),
+      ...getSiteSelectorList('perplexity', 'answer'),
+      '.citation'
+    ];
+  },
+
+  isSupported(location: Location): boolean {
+    const { hostname, pathname } = location;
+    if (hostname !== 'www.perplexity.ai' && hostname !== 'perplexity.ai') {
+      return false;
+    }
+    return pathname.startsWith('/search/');
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/search/{slug}
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/search\/([^/?#]+)/);
+    return match ? match[1] : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Perplexity', 'Perplexity AI']);
+  },
+
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const nextId = createPairIdGenerator('perplexity');
+
+    return collectTurns(root).map(turn => {
+      const promptText = extractPromptContent(turn.query);
+      const sourceCount = Math.max(turn.sourceCountLabel || 0, turn.sourceUrls.size);
+
+      return {
+        id: nextId(promptText),
+        promptNode: turn.query,
+        promptText,
+        answerNode: turn.answer || turn.query,
+        topOffset: getTopOffset(turn.query),
+        ...(sourceCount > 0 ? { sourceCount } : {})
+      };
+    });
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    return getQueryNodes(root).length;
+  },
+
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('perplexity', 'generating'));
+  }
+};
@@ -1,4 +1,6 @@
-import { extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
 
 function getTopOffset(element: HTMLElement): number {
   const rect = element.getBoundingClientRect();
@@ -43,6 +45,13 @@ function getFirstValidElements(root: Document | HTMLElement, selectors: string[]
  */
 export const qwenAdapter: SiteAdapter = {
   name: 'Qwen',
+
+  get diagnosticSelectors() {
+    return [
+      ...getSiteSelectorList('qwen', 'userMessage').slice(0, 3),
+      getSiteSelector('qwen', 'round')
+    ];
+  },
   
   /**
    * 判断是否是通义千问对话页面
@@ -60,41 +69,46 @@ export const qwenAdapter: SiteAdapter = {
     ].includes(hostname);
   },
 
+  /**
+   * 从 URL 提取对话 ID
+   * - qianwen.com: /chat/{id}
+   * - chat.qwen.ai: /c/{id}
+   * - 部分页面通过查询参数携带会话 ID
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/(?:chat|c)\/([a-zA-Z0-9_-]+)/);
+    if (match) return match[1];
+
+    const params = new URLSearchParams(location.search);
+    return params.get('sessionId') || params.get('chatId');
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['Qwen', 'Qwen Chat', '通义', '通义千问']);
+  },
+
   /**
    * 获取页面中所有的「用户问题 + AI 回答」配对
    */
   getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
     const pairs: PromptAnswerPair[] = [];
 
-    // 通义千问的用户消息选择器
-    const userMessageSelectors = [
-      '[data-chat-question-wrap]',
-      '.chat-question-wrap',
-      '.message-card-wrap.question',
-      '.questionItem-MPmrIl',
-      '.content-YjXTeU',
-      '.bubble-uo23is'
-    ];
-
-    const userMessages = getFirstValidElements(root, userMessageSelectors);
+    const userMessages = getFirstValidElements(root, getSiteSelectorList('qwen', 'userMessage'));
 
     // 构建配对
-    userMessages.forEach((userMsg, index) => {
+    const nextId = createPairIdGenerator('qwen');
+    const answerSiblingSelector = getSiteSelector('qwen', 'answerSibling');
+    userMessages.forEach((userMsg) => {
       const promptText = extractPromptContent(userMsg);
       
-      const chatRound = userMsg.closest('.chat-round');
-      const answerInRound = chatRound?.querySelector(
-        '[data-chat-answers-wrap], .chat-answers-card-wrap, .answer-common-card, .message-card-wrap.answer, .qk-markdown'
-      );
+      const chatRound = userMsg.closest(getSiteSelector('qwen', 'round'));
+      const answerInRound = chatRound?.querySelector(getSiteSelector('qwen', 'answerInRound'));
       let answerNode = answerInRound instanceof HTMLElement ? answerInRound : userMsg;
 
       if (answerNode === userMsg) {
         let nextSibling = userMsg.nextElementSibling;
         while (nextSibling) {
-          const classList = (nextSibling as HTMLElement).className || '';
-          if (classList.includes('answer') ||
-              classList.includes('assistant') ||
-              classList.includes('response')) {
+          if (nextSibling.matches(answerSiblingSelector)) {
             answerNode = nextSibling as HTMLElement;
             break;
           }
@@ -103,7 +117,7 @@ export const qwenAdapter: SiteAdapter = {
       }
       
       pairs.push({
-        id: `qwen-turn-${index}`,
+        id: nextId(promptText),
         promptNode: userMsg,
         promptText: promptText,
         answerNode: answerNode,
@@ -114,19 +128,24 @@ export const qwenAdapter: SiteAdapter = {
     return pairs;
   },
 
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('qwen', 'userMessage')));
+  },
+
   /**
    * 快速获取问题数量
    */
   getPromptCount(root: Document | HTMLElement): number {
-    const selectors = [
-      '[data-chat-question-wrap]',
-      '.chat-question-wrap',
-      '.message-card-wrap.question',
-      '.questionItem-MPmrIl',
-      '.content-YjXTeU',
-      '.bubble-uo23is'
-    ];
+    return getFirstValidElements(root, getSiteSelectorList('qwen', 'userMessage')).length;
+  },
 
-    return getFirstValidElements(root, selectors).length;
+  /**
+   * 生成回答时显示停止按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('qwen', 'generating'));
   }
 };
@@ -0,0 +1,286 @@
+/**
+ * 基于页面结构的对话识别
+ * 用于没有任何选择器能覆盖的站点：在主滚动区域中寻找交替出现的两种兄弟块模板，
+ * 再根据对齐方式、背景、首尾位置和与输入框的距离判断哪一种是用户消息
+ */
+
+export interface StructuralTurn {
+  prompt: HTMLElement;
+  /** 紧随其后的回答块；还没有回答时为 null */
+  answer: HTMLElement | null;
+}
+
+export interface StructuralDetection {
+  /** 消息块所在的容器 */
+  container: HTMLElement;
+  /** 按文档顺序排列的轮次 */
+  turns: StructuralTurn[];
+  /** 识别可信度（0~1），低于 MIN_STRUCTURAL_CONFIDENCE 时不应使用 */
+  confidence: number;
+}
+
+/** 低于该可信度时不显示时间线，避免在非对话页面上误识别 */
+export const MIN_STRUCTURAL_CONFIDENCE = 0.6;
+
+/** 单次扫描的元素上限，防止在超大页面上卡顿 */
+const MAX_SCANNED_ELEMENTS = 5000;
+
+/** 按结构初筛后，进入视觉特征计算的候选容器数量 */
+const MAX_VISUAL_CANDIDATES = 5;
+
+/** 向下展开单子元素包裹层的最大深度 */
+const MAX_UNWRAP_DEPTH = 6;
+
+/** 这些区域中的重复块是导航、侧栏等，而不是消息 */
+const EXCLUDED_REGIONS = 'nav, aside, header, footer, form, [role="navigation"], [role="complementary"]';
+
+/** 回答正文中的段落、代码块也会交替出现，这些区域及其内部的容器不参与识别 */
+const CONTENT_REGIONS = '.markdown, .prose, [class*="markdown"], pre, table, blockquote';
+
+const COMPOSER_SELECTOR = 'textarea, [contenteditable="true"], input[type="text"]';
+
+/** 页面的主内容区域；存在时只在其中扫描，跳过侧栏中的对话列表等 */
+const MAIN_REGION_SELECTOR = 'main, [role="main"]';
+
+interface CachedDetection {
+  /** 识别时容器中的消息块，用于判断容器是否发生变化 */
+  blocks: HTMLElement[];
+  detection: StructuralDetection;
+}
+
+/**
+ * 按扫描起点缓存上次的识别结果
+ * 时间线每次 DOM 变化都会计数并重新配对，容器的消息块没有增减时直接复用结果；
+ * 块发生变化时只重新评估该容器，容器被移除（例如切换对话后整块重渲染）或不再像对话时才重新全量扫描
+ */
+const detectedContainers = new WeakMap<Document | HTMLElement, CachedDetection>();
+
+interface Candidate {
+  container: HTMLElement;
+  blocks: HTMLElement[];
+  score: number;
+}
+
+/**
+ * 结构签名：标签名 + 类名（数字归一化，兼容带序号或哈希的类名）
+ */
+function getSignature(element: Element): string {
+  const classes = Array.from(element.classList)
+    .map(name => name.replace(/\d+/g, '#'))
+    .sort()
+    .join('.');
+  return `${element.tagName}.${classes}`;
+}
+
+function hasContent(element: HTMLElement): boolean {
+  return !!element.textContent?.trim() || !!element.querySelector('img, pre, code');
+}
+
+function isTransparent(color: string): boolean {
+  return color === 'transparent' || /^rgba\(.*,\s*0\)$/.test(color);
+}
+
+/**
+ * 找到页面上的输入框（最后一个可见的）
+ */
+function findComposer(doc: Document): HTMLElement | null {
+  const composers = Array.from(doc.querySelectorAll(COMPOSER_SELECTOR))
+    .filter((el): el is HTMLElement => el instanceof HTMLElement && el.getBoundingClientRect().height > 0);
+  return composers[composers.length - 1] || null;
+}
+
+/**
+ * 容器中可能是消息的子元素
+ */
+function getBlocks(container: HTMLElement, composer: HTMLElement | null): HTMLElement[] {
+  return Array.from(container.children).filter((child): child is HTMLElement => {
+    if (!(child instanceof HTMLElement)) return false;
+    if (composer && child.contains(composer)) return false;
+    return hasContent(child) && child.getBoundingClientRect().height > 0;
+  });
+}
+
+/**
+ * 按两种最常见的结构签名的覆盖率初筛候选容器
+ */
+function findCandidates(root: Document | HTMLElement, composer: HTMLElement | null): Candidate[] {
+  const start = root instanceof Document
+    ? root.querySelector<HTMLElement>(MAIN_REGION_SELECTOR) || root.body
+    : root;
+  if (!start) return [];
+
+  const candidates: Candidate[] = [];
+  const elements = start.querySelectorAll('*');
+  const limit = Math.min(elements.length, MAX_SCANNED_ELEMENTS);
+
+  for (let i = 0; i < limit; i++) {
+    const element = elements[i];
+    if (!(element instanceof HTMLElement) || element.childElementCount < 2) continue;
+    if (element.closest(EXCLUDED_REGIONS) || element.closest(CONTENT_REGIONS)) continue;
+
+    const blocks = getBlocks(element, composer);
+    if (blocks.length < 2) continue;
+
+    const counts = new Map<string, number>();
+    blocks.forEach(block => {
+      const signature = getSignature(block);
+      counts.set(signature, (counts.get(signature) || 0) + 1);
+    });
+    const top = Array.from(counts.values()).sort((a, b) => b - a);
+    const coverage = (top[0] + (top[1] || 0)) / blocks.length;
+
+    candidates.push({ container: element, blocks, score: blocks.length * coverage });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_VISUAL_CANDIDATES);
+}
+
+/**
+ * 消息块的视觉模板：结构签名 + 对齐方式 + 是否有气泡背景
+ * 展开只有一个子元素的包裹层，找到实际承载内容的气泡
+ */
+function getTemplate(block: HTMLElement, containerRect: DOMRect): { key: string; alignRight: boolean; bubble: boolean } {
+  let current: HTMLElement = block;
+  let bubble = false;
+
+  for (let depth = 0; depth <= MAX_UNWRAP_DEPTH; depth++) {
+    if (!isTransparent(window.getComputedStyle(current).backgroundColor)) {
+      bubble = true;
+    }
+    const onlyChild = current.childElementCount === 1 ? current.firstElementChild : null;
+    if (!(onlyChild instanceof HTMLElement) || onlyChild.getBoundingClientRect().width === 0) break;
+    current = onlyChild;
+  }
+
+  const rect = current.getBoundingClientRect();
+  const leftGap = rect.left - containerRect.left;
+  const rightGap = containerRect.right - rect.right;
+  // 气泡靠右且左侧留白明显，视为右对齐
+  const alignRight = rightGap + 16 < leftGap && leftGap > containerRect.width * 0.1;
+
+  return {
+    key: `${getSignature(block)}|${alignRight ? 'right' : 'left'}|${bubble ? 'bubble' : 'plain'}`,
+    alignRight,
+    bubble
+  };
+}
+
+/**
+ * 计算候选容器的识别结果
+ */
+function evaluateCandidate(candidate: Candidate, composer: HTMLElement | null): StructuralDetection | null {
+  const containerRect = candidate.container.getBoundingClientRect();
+  const templates = candidate.blocks.map(block => getTemplate(block, containerRect));
+
+  const counts = new Map<string, number>();
+  templates.forEach(template => counts.set(template.key, (counts.get(template.key) || 0) + 1));
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length < 2) return null;
+
+  const keyA = ranked[0][0];
+  const keyB = ranked[1][0];
+  const sequence = candidate.blocks
+    .map((block, index) => ({ block, template: templates[index] }))
+    .filter(entry => entry.template.key === keyA || entry.template.key === keyB);
+
+  // 覆盖率：两种模板占全部块的比例；交替度：相邻块模板不同的比例
+  const coverage = sequence.length / candidate.blocks.length;
+  let switches = 0;
+  for (let i = 1; i < sequence.length; i++) {
+    if (sequence[i].template.key !== sequence[i - 1].template.key) switches++;
+  }
+  const alternation = sequence.length > 1 ? switches / (sequence.length - 1) : 0;
+
+  // 投票判断哪种模板是用户消息：正数表示 A，负数表示 B
+  const sampleA = sequence.find(entry => entry.template.key === keyA)!.template;
+  const sampleB = sequence.find(entry => entry.template.key === keyB)!.template;
+  const averageLength = (key: string): number => {
+    const entries = sequence.filter(entry => entry.template.key === key);
+    return entries.reduce((sum, entry) => sum + (entry.block.textContent || '').length, 0) / entries.length;
+  };
+
+  let votes = 0;
+  const totalWeight = 6;
+  // 用户消息通常右对齐（权重 2）
+  if (sampleA.alignRight !== sampleB.alignRight) votes += sampleA.alignRight ? 2 : -2;
+  // 用户消息通常带气泡背景，回答直接铺在页面上
+  if (sampleA.bubble !== sampleB.bubble) votes += sampleA.bubble ? 1 : -1;
+  // 对话以用户消息开始
+  votes += sequence[0].template.key === keyA ? 1 : -1;
+  // 离输入框最近的通常是最新的回答
+  if (composer) {
+    const composerTop = composer.getBoundingClientRect().top;
+    const nearest = sequence.reduce((best, entry) => {
+      const distance = Math.abs(composerTop - entry.block.getBoundingClientRect().bottom);
+      return distance < best.distance ? { entry, distance } : best;
+    }, { entry: sequence[0], distance: Infinity }).entry;
+    votes += nearest.template.key === keyB ? 1 : -1;
+  }
+  // 提问通常比回答短
+  votes += averageLength(keyA) <= averageLength(keyB) ? 1 : -1;
+
+  const userKey = votes > 0 ? keyA : keyB;
+  const certainty = 0.5 + 0.5 * Math.abs(votes) / totalWeight;
+  // 只有一两块时结构特征不够可靠
+  const sizeFactor = Math.min(1, sequence.length / 4);
+  const confidence = votes === 0 ? 0 : coverage * alternation * certainty * sizeFactor;
+
+  const turns: StructuralTurn[] = [];
+  sequence.forEach((entry, index) => {
+    if (entry.template.key !== userKey) return;
+    const next = sequence[index + 1];
+    turns.push({
+      prompt: entry.block,
+      answer: next && next.template.key !== userKey ? next.block : null
+    });
+  });
+
+  return { container: candidate.container, turns, confidence };
+}
+
+/**
+ * 两次取到的消息块是否完全相同（同一批节点、同样的顺序）
+ */
+function isSameBlocks(a: HTMLElement[], b: HTMLElement[]): boolean {
+  return a.length === b.length && a.every((block, index) => block === b[index]);
+}
+
+/**
+ * 识别页面中的对话轮次，返回可信度最高的结果
+ * 上次识别出的容器仍在页面上且消息块未变时直接复用结果，不再全页扫描
+ * 调用方需要自行检查 confidence 是否达到 MIN_STRUCTURAL_CONFIDENCE
+ */
+export function detectStructuralTurns(root: Document | HTMLElement): StructuralDetection | null {
+  const doc = root instanceof Document ? root : root.ownerDocument;
+  const composer = findComposer(doc);
+
+  const cached = detectedContainers.get(root);
+  const container = cached?.detection.container;
+  if (cached && container && container.isConnected && root.contains(container)) {
+    const blocks = getBlocks(container, composer);
+    if (isSameBlocks(blocks, cached.blocks)) {
+      return cached.detection;
+    }
+    const detection = blocks.length >= 2 ? evaluateCandidate({ container, blocks, score: 0 }, composer) : null;
+    if (detection && detection.turns.length > 0 && detection.confidence >= MIN_STRUCTURAL_CONFIDENCE) {
+      detectedContainers.set(root, { blocks, detection });
+      return detection;
+    }
+  }
+  detectedContainers.delete(root);
+
+  let best: Candidate | null = null;
+  let bestDetection: StructuralDetection | null = null;
+  for (const candidate of findCandidates(root, composer)) {
+    const detection = evaluateCandidate(candidate, composer);
+    if (detection && detection.turns.length > 0 && (!bestDetection || detection.confidence > bestDetection.confidence)) {
+      best = candidate;
+      bestDetection = detection;
+    }
+  }
+
+  if (best && bestDetection && bestDetection.confidence >= MIN_STRUCTURAL_CONFIDENCE) {
+    detectedContainers.set(root, { blocks: best.blocks, detection: bestDetection });
+  }
+  return bestDetection;
+}
@@ -0,0 +1,159 @@
+import { createPairIdGenerator, extractDocumentTitle, extractPromptContent, findNativeMessageId, NEW_CHAT_CONVERSATION_ID, type SiteAdapter, type PromptAnswerPair } from './index';
+import { getSiteSelector, getSiteSelectorList } from '../../utils/selectorBundle';
+import { findScrollContainer } from '../dom/scrollContainer';
+
+/**
+ * 腾讯元宝站点适配器
+ * 支持 yuanbao.tencent.com 的对话页面
+ * 
+ * URL 格式：
+ * - 对话页面: https://yuanbao.tencent.com/chat/{agent_id}/{conversation_id}
+ * - 新对话: https://yuanbao.tencent.com/chat/{agent_id}
+ */
+export const yuanbaoAdapter: SiteAdapter = {
+  name: '元宝',
+
+  get diagnosticSelectors() {
+    return [
+      ...getSiteSelectorList('yuanbao', 'userMessage').slice(0, 2),
+      getSiteSelector('yuanbao', 'aiItem')
+    ];
+  },
+  
+  /**
+   * 判断是否是元宝对话页面
+   */
+  isSupported(location: Location): boolean {
+    const { hostname, pathname } = location;
+    
+    if (hostname !== 'yuanbao.tencent.com') {
+      return false;
+    }
+    
+    return pathname.startsWith('/chat');
+  },
+
+  /**
+   * 从 URL 提取对话 ID：/chat/{agent_id}/{id}（只有智能体 ID 时是新对话）
+   */
+  getConversationId(location: Location): string | null {
+    const match = location.pathname.match(/^\/chat\/[a-zA-Z0-9_-]+\/([a-zA-Z0-9_-]+)/);
+    if (match) return match[1];
+    return /^\/chat\/[a-zA-Z0-9_-]+\/?$/.test(location.pathname) ? NEW_CHAT_CONVERSATION_ID : null;
+  },
+
+  getConversationTitle(doc: Document): string | null {
+    return extractDocumentTitle(doc, ['腾讯元宝', '元宝', 'Yuanbao']);
+  },
+
+  /**
+   * 获取页面中所有的「用户问题 + AI 回答」配对
+   */
+  getPromptAnswerPairs(root: Document | HTMLElement): PromptAnswerPair[] {
+    const pairs: PromptAnswerPair[] = [];
+    
+    /**
+     * 辅助函数：计算元素相对于文档顶部的偏移量
+     */
+    const getTopOffset = (element: HTMLElement): number => {
+      const rect = element.getBoundingClientRect();
+      const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
+      return rect.top + scrollTop;
+    };
+
+    /**
+     * 辅助函数：检查是否是有效的对话节点
+     */
+    const isValidNode = (element: HTMLElement): boolean => {
+      // 排除输入框区域
+      if (element.querySelector('textarea, [contenteditable="true"], form')) {
+        return false;
+      }
+      
+      const text = element.textContent?.trim() || '';
+      if (text.length > 0) return true;
+      
+      return !!element.querySelector('img, svg, canvas, pre, code');
+    };
+
+    // 元宝的用户消息选择器
+    // 消息列表项带有 --human / --ai 修饰类；流式输出时回答项先于内容出现
+    let userMessages: HTMLElement[] = [];
+    
+    for (const selector of getSiteSelectorList('yuanbao', 'userMessage')) {
+      const found = root.querySelectorAll(selector);
+      if (found.length > 0) {
+        userMessages = Array.from(found).filter(el => 
+          el instanceof HTMLElement && isValidNode(el)
+        ) as HTMLElement[];
+        if (userMessages.length > 0) {
+          break;
+        }
+      }
+    }
+
+    // 构建配对
+    const nextId = createPairIdGenerator('yuanbao');
+    const userItemSelector = getSiteSelector('yuanbao', 'userItem');
+    const aiItemSelector = getSiteSelector('yuanbao', 'aiItem');
+    userMessages.forEach((userMsg) => {
+      const promptText = extractPromptContent(userMsg);
+      
+      // 回答是后面第一个 AI 列表项；遇到下一条用户消息说明还没有回答
+      let answerNode = userMsg;
+      let nextSibling = userMsg.nextElementSibling;
+      while (nextSibling) {
+        if (nextSibling.matches(userItemSelector)) {
+          break;
+        }
+        if (nextSibling.matches(aiItemSelector)) {
+          answerNode = nextSibling as HTMLElement;
+          break;
+        }
+        nextSibling = nextSibling.nextElementSibling;
+      }
+      
+      pairs.push({
+        id: nextId(promptText, findNativeMessageId(userMsg, ['data-conv-idx', 'data-message-id'])),
+        promptNode: userMsg,
+        promptText: promptText,
+        answerNode: answerNode,
+        topOffset: getTopOffset(userMsg)
+      });
+    });
+
+    return pairs;
+  },
+
+  /**
+   * 对话在页面内部的容器中滚动，从消息节点向上查找
+   */
+  getScrollContainer(root: Document | HTMLElement): HTMLElement {
+    return findScrollContainer(root.querySelector(getSiteSelector('yuanbao', 'userMessage')));
+  },
+
+  /**
+   * 快速获取问题数量
+   */
+  getPromptCount(root: Document | HTMLElement): number {
+    for (const selector of getSiteSelectorList('yuanbao', 'userMessage')) {
+      const elements = root.querySelectorAll(selector);
+      if (elements.length > 0) {
+        let count = 0;
+        for (let i = 0; i < elements.length; i++) {
+          if (!elements[i].querySelector('textarea, form')) count++;
+        }
+        return count;
+      }
+    }
+
+    return 0;
+  },
+
+  /**
+   * 生成回答时显示停止生成按钮
+   */
+  isGenerating(doc: Document): boolean {
+    return !!doc.querySelector(getSiteSelector('yuanbao', 'generating'));
+  }
+};
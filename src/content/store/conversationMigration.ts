@@ -0,0 +1,30 @@
+import { PinnedStore } from './pinnedStore';
+import { FavoriteStore } from './favoriteStore';
+import { FavoriteArchiveStore, moveArchiveConversation } from './favoriteArchiveStore';
+
+/**
+ * 将标记、收藏与归档链接从旧的对话 ID 迁移到新的对话 ID
+ * 同一页面的对话 ID 发生变化时调用（例如适配器改用更精确的 ID 提取规则）
+ * @param url 可选，同时更新收藏中记录的对话 URL
+ */
+export async function moveConversationData(fromId: string, toId: string, url?: string): Promise<void> {
+  if (!fromId || !toId || fromId === toId) return;
+
+  await PinnedStore.moveConversation(fromId, toId);
+  await FavoriteStore.moveConversation(fromId, toId, url);
+
+  const archiveState = await FavoriteArchiveStore.load();
+  if (moveArchiveConversation(archiveState, fromId, toId)) {
+    await FavoriteArchiveStore.save(archiveState);
+  }
+}
+
+/**
+ * 删除某个对话的标记与收藏（用于清理被放弃的临时对话）
+ */
+export async function removeConversationData(conversationId: string): Promise<void> {
+  if (!conversationId) return;
+
+  await PinnedStore.removePinned(conversationId);
+  await FavoriteStore.unfavoriteConversation(conversationId);
+}
@@ -1,6 +1,8 @@
 export interface FavoriteArchiveLink {
   conversationId: string;
   nodeIndex: number;
+  /** 节点的稳定 ID（旧数据可能没有，此时按索引匹配） */
+  nodeId?: string;
 }
 
 export interface FavoriteArchiveFolder {
@@ -24,7 +26,7 @@ function now(): number {
 }
 
 export function toFavoriteLinkKey(link: FavoriteArchiveLink): string {
-  return `${link.conversationId}#${link.nodeIndex}`;
+  return `${link.conversationId}#${link.nodeId ?? link.nodeIndex}`;
 }
 
 function createEmptyState(): FavoriteArchiveState {
@@ -49,7 +51,10 @@ function normalizeFolder(raw: any): FavoriteArchiveFolder | null {
       if (typeof l.conversationId !== 'string' || !l.conversationId) return null;
       const nodeIndex = typeof l.nodeIndex === 'number' ? l.nodeIndex : Number(l.nodeIndex);
       if (!Number.isFinite(nodeIndex)) return null;
-      return { conversationId: l.conversationId, nodeIndex };
+      const nodeId = typeof l.nodeId === 'string' && l.nodeId ? l.nodeId : undefined;
+      return nodeId
+        ? { conversationId: l.conversationId, nodeIndex, nodeId }
+        : { conversationId: l.conversationId, nodeIndex };
     })
     .filter(Boolean) as FavoriteArchiveLink[];
 
@@ -191,7 +196,11 @@ export function addArchiveLinkToFolder(
   removeLinkFromList(state.rootFolders, linkKey);
 
   if (folder.links.some((l) => toFavoriteLinkKey(l) === linkKey)) return false;
-  folder.links.push({ conversationId: link.conversationId, nodeIndex: link.nodeIndex });
+  folder.links.push(
+    link.nodeId
+      ? { conversationId: link.conversationId, nodeIndex: link.nodeIndex, nodeId: link.nodeId }
+      : { conversationId: link.conversationId, nodeIndex: link.nodeIndex }
+  );
   folder.updatedAt = now();
   return true;
 }
@@ -250,3 +259,63 @@ export function findArchiveFolder(
 ): FavoriteArchiveFolder | null {
   return findFolderInList(state.rootFolders, folderId);
 }
+
+/**
+ * 迁移旧数据：为只有索引的归档链接补上稳定 ID，并跟随节点 ID 的变化（与收藏项迁移保持一致）
+ * @param ids 当前页面按索引排列的节点 ID
+ * @param idChanges 旧节点 ID -> 新节点 ID
+ */
+export function migrateArchiveLinkNodeIds(
+  state: FavoriteArchiveState,
+  conversationId: string,
+  ids: string[],
+  idChanges: Map<string, string> = new Map()
+): boolean {
+  let changed = false;
+  const walk = (folders: FavoriteArchiveFolder[]) => {
+    folders.forEach((folder) => {
+      folder.links.forEach((l) => {
+        if (l.conversationId !== conversationId) return;
+        // 按迁移前的 ID 计算，链式或互换的变化不会互相覆盖
+        const nextId = l.nodeId ? idChanges.get(l.nodeId) : ids[l.nodeIndex];
+        if (nextId && nextId !== l.nodeId) {
+          l.nodeId = nextId;
+          changed = true;
+        }
+      });
+      walk(folder.folders);
+    });
+  };
+  walk(state.rootFolders);
+  return changed;
+}
+
+/**
+ * 将归档链接从一个对话 ID 迁移到另一个（与收藏迁移保持一致）
+ */
+export function moveArchiveConversation(
+  state: FavoriteArchiveState,
+  fromId: string,
+  toId: string
+): boolean {
+  let changed = false;
+  const walk = (folders: FavoriteArchiveFolder[]) => {
+    folders.forEach((folder) => {
+      const seen = new Set<string>();
+      folder.links = folder.links.filter((l) => {
+        if (l.conversationId === fromId) {
+          l.conversationId = toId;
+          changed = true;
+        }
+        // 合并后同一文件夹内可能出现重复链接
+        const key = toFavoriteLinkKey(l);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      walk(folder.folders);
+    });
+  };
+  walk(state.rootFolders);
+  return changed;
+}
@@ -3,13 +3,31 @@
  * 用于保存和管理用户收藏的对话
  */
 
-export interface FavoriteItem {
+import type { PromptSummary, TurnVariant } from '../siteAdapters/index';
+import { navEvents } from '../eventBus';
+
+/**
+ * 对话内节点的引用
+ * 优先按稳定 ID 定位，ID 缺失（旧数据）或找不到时回退到索引
+ */
+export interface FavoriteNodeRef {
   /** 对话内的节点索引 */
   nodeIndex: number;
+  /** 节点的稳定 ID（旧数据可能没有） */
+  nodeId?: string;
+}
+
+export interface FavoriteItem extends FavoriteNodeRef {
   /** 节点的预览文本 */
   promptText: string;
   /** 收藏时间 */
   timestamp: number;
+  /** 标记时所在的版本（该轮存在多个版本时） */
+  variant?: TurnVariant;
+  /** 回答引用的来源数量（站点提供时） */
+  sourceCount?: number;
+  /** 提问的结构化摘要（旧数据没有，显示时回退到 promptText） */
+  summary?: PromptSummary;
 }
 
 export interface FavoriteConversation {
@@ -17,18 +35,74 @@ export interface FavoriteConversation {
   conversationId: string;
   /** 对话 URL */
   url: string;
-  /** 对话标题（可选，取第一个收藏项的文本） */
+  /** 对话标题（优先使用站点显示的标题，否则取第一个提问的文本） */
   title: string;
+  /** 标题是否被用户手动修改过（修改过的标题不再跟随站点更新） */
+  titleEdited?: boolean;
   /** 收藏的节点列表 */
   items: FavoriteItem[];
   /** 最后更新时间 */
   updatedAt: number;
   /** 站点名称 */
   siteName: string;
+  /** 是否为只读分享页上的对话 */
+  shared?: boolean;
+  /** 分享链接（仅分享对话） */
+  shareUrl?: string;
 }
 
 const STORAGE_KEY = 'llm-nav-favorites';
 
+/**
+ * 收藏时传入的节点信息
+ */
+export interface FavoritePinnedItem {
+  index: number;
+  id?: string;
+  promptText: string;
+  variant?: TurnVariant;
+  sourceCount?: number;
+  summary?: PromptSummary;
+}
+
+/**
+ * 判断两个节点引用是否指向同一节点
+ */
+export function isSameFavoriteNode(a: FavoriteNodeRef, b: FavoriteNodeRef): boolean {
+  if (a.nodeId && b.nodeId) return a.nodeId === b.nodeId;
+  return a.nodeIndex === b.nodeIndex;
+}
+
+/**
+ * 在当前页面的条目中解析节点引用，返回索引
+ */
+export function resolveFavoriteNodeIndex(items: Array<{ id: string }>, ref: FavoriteNodeRef): number {
+  if (ref.nodeId) {
+    const index = items.findIndex(item => item.id === ref.nodeId);
+    if (index >= 0) return index;
+  }
+  return ref.nodeIndex;
+}
+
+/**
+ * 截取收藏标题
+ */
+function toFavoriteTitle(text: string): string {
+  return text.length > 40 ? text.substring(0, 40) + '...' : text;
+}
+
+function toFavoriteItems(pinnedItems: FavoritePinnedItem[], timestamp: number): FavoriteItem[] {
+  return pinnedItems.map(item => ({
+    nodeIndex: item.index,
+    ...(item.id ? { nodeId: item.id } : {}),
+    promptText: item.promptText,
+    ...(item.variant ? { variant: item.variant } : {}),
+    ...(item.sourceCount ? { sourceCount: item.sourceCount } : {}),
+    ...(item.summary ? { summary: item.summary } : {}),
+    timestamp
+  }));
+}
+
 export const FavoriteStore = {
   /**
    * 加载所有收藏
@@ -50,12 +124,13 @@ export const FavoriteStore = {
   },
 
   /**
-   * 保存所有收藏
+   * 保存所有收藏（保存后发布 favoriteChanged）
    */
   async saveAll(favorites: FavoriteConversation[]): Promise<void> {
     return new Promise((resolve) => {
       try {
         chrome.storage.local.set({ [STORAGE_KEY]: favorites }, () => {
+          navEvents.emit('favoriteChanged', { favorites });
           resolve();
         });
       } catch (e) {
@@ -78,7 +153,7 @@ export const FavoriteStore = {
    * @param url 当前页面 URL
    * @param siteName 站点名称
    * @param chatTitle 整个对话的标题（第一个问题的缩略）
-   * @param pinnedItems 被标记的节点信息数组 [{index, promptText}]
+   * @param pinnedItems 被标记的节点信息数组 [{index, id, promptText}]
    * @returns 是否成功收藏（如果已存在则更新）
    */
   async favoriteConversation(
@@ -86,7 +161,8 @@ export const FavoriteStore = {
     url: string,
     siteName: string,
     chatTitle: string,
-    pinnedItems: Array<{ index: number; promptText: string }>
+    pinnedItems: FavoritePinnedItem[],
+    shareUrl: string | null = null
   ): Promise<boolean> {
     const all = await this.loadAll();
     const now = Date.now();
@@ -94,24 +170,21 @@ export const FavoriteStore = {
     // 查找是否已存在
     const existingIndex = all.findIndex(c => c.conversationId === conversationId);
     
-    const items: FavoriteItem[] = pinnedItems.map(item => ({
-      nodeIndex: item.index,
-      promptText: item.promptText,
-      timestamp: now
-    }));
+    const items = toFavoriteItems(pinnedItems, now);
     
-    // 使用传入的 chatTitle，截取前40字符
-    const title = chatTitle.length > 40 
-      ? chatTitle.substring(0, 40) + '...' 
-      : chatTitle;
+    // 使用传入的 chatTitle，截取前40字符；用户改过的标题保持不变
+    const existing = existingIndex >= 0 ? all[existingIndex] : null;
+    const title = existing?.titleEdited ? existing.title : toFavoriteTitle(chatTitle);
     
     const conversation: FavoriteConversation = {
       conversationId,
       url,
       title: title || '未命名对话',
+      ...(existing?.titleEdited ? { titleEdited: true } : {}),
       items,
       updatedAt: now,
-      siteName
+      siteName,
+      ...(shareUrl ? { shared: true, shareUrl } : {})
     };
     
     if (existingIndex >= 0) {
@@ -131,7 +204,7 @@ export const FavoriteStore = {
    */
   async updateFavoriteItems(
     conversationId: string,
-    pinnedItems: Array<{ index: number; promptText: string }>
+    pinnedItems: FavoritePinnedItem[]
   ): Promise<boolean> {
     const all = await this.loadAll();
     const conversation = all.find(c => c.conversationId === conversationId);
@@ -139,11 +212,7 @@ export const FavoriteStore = {
     if (!conversation) return false;
     
     const now = Date.now();
-    conversation.items = pinnedItems.map(item => ({
-      nodeIndex: item.index,
-      promptText: item.promptText,
-      timestamp: now
-    }));
+    conversation.items = toFavoriteItems(pinnedItems, now);
     conversation.updatedAt = now;
     
     await this.saveAll(all);
@@ -173,7 +242,7 @@ export const FavoriteStore = {
   },
 
   /**
-   * 更新收藏的标题
+   * 更新收藏的标题（用户手动编辑）
    */
   async updateTitle(conversationId: string, newTitle: string): Promise<boolean> {
     const all = await this.loadAll();
@@ -182,27 +251,108 @@ export const FavoriteStore = {
     if (!conversation) return false;
     
     conversation.title = newTitle;
+    conversation.titleEdited = true;
     conversation.updatedAt = Date.now();
     
     await this.saveAll(all);
     return true;
   },
 
+  /**
+   * 跟随站点更新收藏标题（站点重命名对话时调用）
+   * 用户手动编辑过的标题不会被覆盖
+   * @returns 是否有更新
+   */
+  async syncSiteTitle(conversationId: string, siteTitle: string): Promise<boolean> {
+    const all = await this.loadAll();
+    const conversation = all.find(c => c.conversationId === conversationId);
+    
+    if (!conversation || conversation.titleEdited) return false;
+    
+    const title = toFavoriteTitle(siteTitle);
+    if (!title || title === conversation.title) return false;
+    
+    conversation.title = title;
+    await this.saveAll(all);
+    return true;
+  },
+
   /**
    * 删除收藏中的单个节点
    * 删除所有子项后父项依然保留，用户可以点击父项跳转到对话
    */
-  async removeItem(conversationId: string, nodeIndex: number): Promise<boolean> {
+  async removeItem(conversationId: string, ref: FavoriteNodeRef): Promise<boolean> {
     const all = await this.loadAll();
     const conversation = all.find(c => c.conversationId === conversationId);
     
     if (!conversation) return false;
     
-    conversation.items = conversation.items.filter(item => item.nodeIndex !== nodeIndex);
+    conversation.items = conversation.items.filter(item => !isSameFavoriteNode(item, ref));
     conversation.updatedAt = Date.now();
     
     await this.saveAll(all);
     return true;
+  },
+
+  /**
+   * 将收藏从一个对话 ID 迁移到另一个（同一页面的对话 ID 发生变化时使用）
+   * 目标已存在时合并收藏项
+   * @param url 可选，同时更新对话 URL
+   * @returns 是否有数据被迁移
+   */
+  async moveConversation(fromId: string, toId: string, url?: string): Promise<boolean> {
+    if (!fromId || !toId || fromId === toId) return false;
+
+    const all = await this.loadAll();
+    const source = all.find(c => c.conversationId === fromId);
+    if (!source) return false;
+
+    const target = all.find(c => c.conversationId === toId);
+    if (target) {
+      source.items.forEach(item => {
+        if (!target.items.some(existing => isSameFavoriteNode(existing, item))) {
+          target.items.push(item);
+        }
+      });
+      target.updatedAt = Date.now();
+      if (url) target.url = url;
+      await this.saveAll(all.filter(c => c !== source));
+      return true;
+    }
+
+    source.conversationId = toId;
+    source.updatedAt = Date.now();
+    if (url) source.url = url;
+    await this.saveAll(all);
+    return true;
+  },
+
+  /**
+   * 迁移旧数据：为只有索引的收藏项补上稳定 ID，并把 ID 发生变化的节点（例如原地编辑的提问）改指新 ID
+   * 只能在对话页面上执行（需要当前页面的条目来建立索引到 ID 的映射）
+   * 每一项都按迁移前的 ID 计算新 ID，链式（a→b、b→c）或互换的变化不会互相覆盖
+   * @param ids 当前页面按索引排列的节点 ID
+   * @param idChanges 旧节点 ID -> 新节点 ID
+   * @returns 是否有数据被更新
+   */
+  async migrateNodeIds(conversationId: string, ids: string[], idChanges: Map<string, string> = new Map()): Promise<boolean> {
+    const all = await this.loadAll();
+    const conversation = all.find(c => c.conversationId === conversationId);
+    if (!conversation) return false;
+
+    let changed = false;
+    conversation.items.forEach(item => {
+      const nextId = item.nodeId ? idChanges.get(item.nodeId) : ids[item.nodeIndex];
+      if (nextId && nextId !== item.nodeId) {
+        item.nodeId = nextId;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      await this.saveAll(all);
+    }
+    return changed;
   }
 };
 
@@ -1,3 +1,6 @@
+import type { TurnVariant } from '../siteAdapters/index';
+import { navEvents } from '../eventBus';
+
 /**
  * Pinned State Storage
  * Persists pinned nodes for each conversation
@@ -8,6 +11,12 @@ export const PinnedStore = {
    */
   KEY_PREFIX: 'llm-nav-pinned:',
 
+  /**
+   * Storage key prefix for the variant each node was pinned on
+   * Kept separate so the pinned list itself stays a plain array of node IDs
+   */
+  VARIANT_KEY_PREFIX: 'llm-nav-pinned-variants:',
+
   /**
    * Load pinned nodes for a specific conversation
    * @param conversationId 
@@ -62,7 +71,163 @@ export const PinnedStore = {
   },
 
   /**
-   * Save pinned nodes
+   * Move pinned nodes from one conversation key to another (merging with existing pins)
+   * Used when the conversation ID of the same page changes, e.g. after key format upgrades
+   * @returns Whether anything was moved
+   */
+  async moveConversation(fromId: string, toId: string): Promise<boolean> {
+    if (!fromId || !toId || fromId === toId) return false;
+
+    const fromPinned = await this.loadPinned(fromId);
+    if (fromPinned.size === 0) return false;
+
+    const toPinned = await this.loadPinned(toId);
+    fromPinned.forEach((nodeId) => toPinned.add(nodeId));
+
+    await this.savePinned(toId, toPinned);
+
+    const fromVariants = await this.loadPinnedVariants(fromId);
+    if (Object.keys(fromVariants).length > 0) {
+      const toVariants = await this.loadPinnedVariants(toId);
+      await this.savePinnedVariants(toId, { ...fromVariants, ...toVariants });
+    }
+
+    await this.removePinned(fromId);
+    return true;
+  },
+
+  /**
+   * Remove all pinned nodes of a conversation (emits pinChanged with no pins)
+   */
+  async removePinned(conversationId: string): Promise<void> {
+    const keys = [this.KEY_PREFIX + conversationId, this.VARIANT_KEY_PREFIX + conversationId];
+
+    return new Promise((resolve) => {
+      try {
+        chrome.storage.local.remove(keys, () => {
+          navEvents.emit('pinChanged', { conversationId, pinnedIds: [] });
+          resolve();
+        });
+      } catch (e) {
+        resolve();
+      }
+    });
+  },
+
+  /**
+   * Load the variant each pinned node was pinned on
+   * @returns Map of node ID to variant (only nodes pinned while multiple variants existed)
+   */
+  async loadPinnedVariants(conversationId: string): Promise<Record<string, TurnVariant>> {
+    if (!conversationId) return {};
+
+    const key = this.VARIANT_KEY_PREFIX + conversationId;
+
+    return new Promise((resolve) => {
+      try {
+        chrome.storage.local.get(key, (result) => {
+          if (chrome.runtime.lastError) {
+            resolve({});
+            return;
+          }
+          const raw = result[key];
+          resolve(raw && typeof raw === 'object' ? raw : {});
+        });
+      } catch (e) {
+        resolve({});
+      }
+    });
+  },
+
+  /**
+   * Remember (or forget, when variant is null) the variant a node was pinned on
+   */
+  async savePinnedVariant(conversationId: string, nodeId: string, variant: TurnVariant | null): Promise<void> {
+    if (!conversationId || !nodeId) return;
+
+    const variants = await this.loadPinnedVariants(conversationId);
+    if (variant) {
+      variants[nodeId] = variant;
+    } else if (variants[nodeId]) {
+      delete variants[nodeId];
+    } else {
+      return;
+    }
+
+    await this.savePinnedVariants(conversationId, variants);
+  },
+
+  /**
+   * Save the pinned variant map
+   */
+  async savePinnedVariants(conversationId: string, variants: Record<string, TurnVariant>): Promise<void> {
+    const key = this.VARIANT_KEY_PREFIX + conversationId;
+
+    return new Promise((resolve) => {
+      try {
+        if (Object.keys(variants).length === 0) {
+          chrome.storage.local.remove(key, () => resolve());
+        } else {
+          chrome.storage.local.set({ [key]: variants }, () => resolve());
+        }
+      } catch (e) {
+        resolve();
+      }
+    });
+  },
+
+  /**
+   * Migrate legacy index keys ("0", "1", ...) to stable node IDs
+   * Older versions stored node indexes; IDs always carry a site prefix, so pure digits are legacy
+   * @param pinnedSet Mutated in place
+   * @param ids Node IDs of the current page, ordered by index
+   * @returns Whether anything changed
+   */
+  migrateIndexKeys(pinnedSet: Set<string>, ids: string[]): boolean {
+    let changed = false;
+
+    Array.from(pinnedSet).forEach((key) => {
+      if (!/^\d+$/.test(key)) return;
+      const id = ids[parseInt(key, 10)];
+      if (!id) return;
+
+      pinnedSet.delete(key);
+      pinnedSet.add(id);
+      changed = true;
+    });
+
+    return changed;
+  },
+
+  /**
+   * Move pins (and their remembered variants) to new node IDs
+   * Used when a turn stays on the page but its ID changes, e.g. the prompt was edited in place
+   * Every ID is mapped from a snapshot of the old state, so chains (a→b, b→c) and swaps keep each pin
+   * @param pinnedSet Mutated in place
+   * @param variants Mutated in place
+   * @param idChanges Map of old node ID to new node ID
+   * @returns Whether anything changed
+   */
+  remapNodeIds(pinnedSet: Set<string>, variants: Record<string, TurnVariant>, idChanges: Map<string, string>): boolean {
+    const previousIds = Array.from(pinnedSet);
+    if (!previousIds.some(id => idChanges.has(id))) return false;
+
+    const previousVariants = { ...variants };
+    const remap = (id: string) => idChanges.get(id) ?? id;
+
+    pinnedSet.clear();
+    previousIds.forEach(id => pinnedSet.add(remap(id)));
+
+    Object.keys(previousVariants).forEach(id => delete variants[id]);
+    Object.keys(previousVariants).forEach((id) => {
+      variants[remap(id)] = previousVariants[id];
+    });
+
+    return true;
+  },
+
+  /**
+   * Save pinned nodes (emits pinChanged once saved)
    */
   async savePinned(conversationId: string, pinnedSet: Set<string>): Promise<void> {
     const key = this.KEY_PREFIX + conversationId;
@@ -73,6 +238,8 @@ export const PinnedStore = {
         chrome.storage.local.set({ [key]: pinnedList }, () => {
           if (chrome.runtime.lastError) {
             // console.error('Failed to save pinned state:', chrome.runtime.lastError);
+          } else {
+            navEvents.emit('pinChanged', { conversationId, pinnedIds: pinnedList });
           }
           resolve();
         });
@@ -1,14 +1,47 @@
 // Options page script
 import { getTranslation, type Language } from '../utils/i18n';
+import {
+  CUSTOM_SITE_RULES_KEY,
+  normalizeRulesMap,
+  type CustomSiteRulesMap
+} from '../utils/customSiteRules';
+import { createRulesEditor } from '../utils/rulesEditor';
+import { NAV_STEP_MODE_KEY, SECTION_NAVIGATION_KEY } from '../utils/sectionNavigation';
+import {
+  BUILT_IN_SELECTOR_BUNDLE,
+  isSelectorBundleOutdated,
+  normalizeSelectorBundle,
+  SELECTOR_BUNDLE_OVERRIDE_KEY,
+  validateSelectorBundle,
+  type SelectorBundle
+} from '../utils/selectorBundle';
+import {
+  ensureContentScriptHost,
+  fillSiteOverrideSelect,
+  fromSiteOverrideValue,
+  normalizeSiteOverridesMap,
+  SITE_OVERRIDES_KEY,
+  toSiteOverrideValue,
+  type SiteOverridesMap
+} from '../utils/siteOverrides';
+import { getAllAdapters } from '../content/siteAdapters/index';
 
 // 配置键
 const CONFIG_KEYS = {
   UI_THEME: 'ui_theme',
   CUSTOM_URLS: 'custom_urls',
-  LANGUAGE: 'language'
+  CUSTOM_SITE_RULES: CUSTOM_SITE_RULES_KEY,
+  SITE_OVERRIDES: SITE_OVERRIDES_KEY,
+  LANGUAGE: 'language',
+  SECTION_NAVIGATION: SECTION_NAVIGATION_KEY,
+  NAV_STEP_MODE: NAV_STEP_MODE_KEY
 };
 
 let currentLanguage: Language = 'auto';
+let customRules: CustomSiteRulesMap = {};
+let expandedRulesDomain: string | null = null;
+let selectorBundleOverride: SelectorBundle | null = null;
+let siteOverrides: SiteOverridesMap = {};
 
 // 应用翻译
 function applyTranslations(lang: Language) {
@@ -38,9 +71,15 @@ async function loadSettings(): Promise<void> {
     const result = await chrome.storage.sync.get([
       CONFIG_KEYS.UI_THEME,
       CONFIG_KEYS.CUSTOM_URLS,
-      CONFIG_KEYS.LANGUAGE
+      CONFIG_KEYS.CUSTOM_SITE_RULES,
+      CONFIG_KEYS.SITE_OVERRIDES,
+      CONFIG_KEYS.LANGUAGE,
+      CONFIG_KEYS.SECTION_NAVIGATION,
+      CONFIG_KEYS.NAV_STEP_MODE
     ]);
     
+    customRules = normalizeRulesMap(result[CONFIG_KEYS.CUSTOM_SITE_RULES]);
+    siteOverrides = normalizeSiteOverridesMap(result[CONFIG_KEYS.SITE_OVERRIDES]);
     const uiTheme = result[CONFIG_KEYS.UI_THEME] || 'auto'; // 默认跟随系统
     const customUrls = result[CONFIG_KEYS.CUSTOM_URLS] || [];
     const language = result[CONFIG_KEYS.LANGUAGE] || 'auto';
@@ -57,8 +96,25 @@ async function loadSettings(): Promise<void> {
     if (langSelect) {
       langSelect.value = language;
     }
+
+    const sectionToggle = document.getElementById('section-navigation') as HTMLInputElement;
+    if (sectionToggle) {
+      sectionToggle.checked = !!result[CONFIG_KEYS.SECTION_NAVIGATION];
+    }
+
+    const stepModeSelect = document.getElementById('nav-step-mode') as HTMLSelectElement;
+    if (stepModeSelect) {
+      stepModeSelect.value = result[CONFIG_KEYS.NAV_STEP_MODE] || 'prompt';
+      // 按章节步进依赖章节索引
+      stepModeSelect.disabled = !result[CONFIG_KEYS.SECTION_NAVIGATION];
+    }
     
     renderCustomUrls(customUrls);
+    renderSiteOverrides();
+
+    const localResult = await chrome.storage.local.get(SELECTOR_BUNDLE_OVERRIDE_KEY);
+    selectorBundleOverride = normalizeSelectorBundle(localResult[SELECTOR_BUNDLE_OVERRIDE_KEY]);
+    renderSelectorBundleStatus();
   } catch (error) {
     // console.error('加载设置失败:', error);
   }
@@ -74,19 +130,55 @@ function renderCustomUrls(urls: string[]): void {
   urls.forEach((url, index) => {
     const li = document.createElement('li');
     Object.assign(li.style, {
-      display: 'flex',
-      justifyContent: 'space-between',
-      alignItems: 'center',
       padding: '8px 12px',
       borderBottom: '1px solid #eee',
       background: '#f9f9f9',
       borderRadius: '4px',
       marginBottom: '5px'
     });
+
+    const header = document.createElement('div');
+    Object.assign(header.style, {
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: '8px'
+    });
     
     const span = document.createElement('span');
     span.textContent = url;
     span.style.color = '#333';
+    span.style.flex = '1';
+
+    if (customRules[url]) {
+      const badge = document.createElement('span');
+      badge.textContent = getTranslation('options.rules.configured', currentLanguage);
+      Object.assign(badge.style, {
+        marginLeft: '8px',
+        padding: '2px 6px',
+        borderRadius: '4px',
+        background: '#e8f5e9',
+        color: '#2e7d32',
+        fontSize: '11px'
+      });
+      span.appendChild(badge);
+    }
+
+    const rulesBtn = document.createElement('button');
+    rulesBtn.textContent = getTranslation('options.rules.edit', currentLanguage);
+    Object.assign(rulesBtn.style, {
+      padding: '4px 8px',
+      background: '#fff',
+      color: '#333',
+      border: '1px solid #ddd',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '12px'
+    });
+    rulesBtn.onclick = () => {
+      expandedRulesDomain = expandedRulesDomain === url ? null : url;
+      renderCustomUrls(urls);
+    };
     
     const btn = document.createElement('button');
     btn.textContent = getTranslation('options.sites.custom.delete', currentLanguage);
@@ -103,15 +195,234 @@ function renderCustomUrls(urls: string[]): void {
     btn.onclick = () => {
       const newUrls = urls.filter((_, i) => i !== index);
       saveSetting(CONFIG_KEYS.CUSTOM_URLS, newUrls);
+      // 同步删除该域名的规则
+      if (customRules[url]) {
+        delete customRules[url];
+        saveSetting(CONFIG_KEYS.CUSTOM_SITE_RULES, customRules);
+      }
       renderCustomUrls(newUrls);
     };
     
+    header.appendChild(span);
+    header.appendChild(rulesBtn);
+    header.appendChild(btn);
+    li.appendChild(header);
+
+    if (expandedRulesDomain === url) {
+      li.appendChild(createDomainRulesEditor(url, () => renderCustomUrls(urls)));
+    }
+
+    list.appendChild(li);
+  });
+}
+
+// 创建自定义站点规则编辑器
+function createDomainRulesEditor(domain: string, onChange: () => void): HTMLElement {
+  const editor = createRulesEditor({
+    lang: currentLanguage,
+    rules: customRules[domain],
+    theme: { textColor: '#333', inputBackground: '#fff', borderColor: '#ddd', primaryColor: '#4CAF50' },
+    onSave: async (rules) => {
+      await saveCustomRules({ ...customRules, [domain]: rules });
+      onChange();
+    },
+    onClear: async () => {
+      const next = { ...customRules };
+      delete next[domain];
+      await saveCustomRules(next);
+      onChange();
+    }
+  });
+  Object.assign(editor.style, {
+    marginTop: '10px',
+    paddingTop: '10px',
+    borderTop: '1px dashed #ddd'
+  });
+  return editor;
+}
+
+// 可强制使用的适配器名称
+function getAdapterNames(): string[] {
+  return getAllAdapters().map(adapter => adapter.name);
+}
+
+// 渲染按域名覆盖设置列表
+function renderSiteOverrides(): void {
+  const modeSelect = document.getElementById('site-override-mode') as HTMLSelectElement | null;
+  if (modeSelect) {
+    const value = modeSelect.value;
+    fillSiteOverrideSelect(modeSelect, getAdapterNames(), currentLanguage);
+    modeSelect.value = value || 'disabled';
+  }
+
+  const list = document.getElementById('site-override-list');
+  if (!list) return;
+
+  list.innerHTML = '';
+
+  Object.keys(siteOverrides).sort().forEach((hostname) => {
+    const li = document.createElement('li');
+    Object.assign(li.style, {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '8px 12px',
+      background: '#f9f9f9',
+      borderRadius: '4px',
+      marginBottom: '5px'
+    });
+
+    const span = document.createElement('span');
+    span.textContent = hostname;
+    span.style.color = '#333';
+    span.style.flex = '1';
+
+    const select = document.createElement('select');
+    Object.assign(select.style, {
+      padding: '4px 8px',
+      border: '1px solid #ddd',
+      borderRadius: '4px',
+      fontSize: '12px',
+      cursor: 'pointer'
+    });
+    fillSiteOverrideSelect(select, getAdapterNames(), currentLanguage);
+    select.value = toSiteOverrideValue(siteOverrides[hostname]);
+    select.onchange = () => {
+      setSiteOverride(hostname, select.value);
+    };
+
+    const btn = document.createElement('button');
+    btn.textContent = getTranslation('options.sites.custom.delete', currentLanguage);
+    Object.assign(btn.style, {
+      padding: '4px 8px',
+      background: '#ff4444',
+      color: 'white',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      fontSize: '12px'
+    });
+    btn.onclick = () => {
+      setSiteOverride(hostname, '');
+    };
+
     li.appendChild(span);
+    li.appendChild(select);
     li.appendChild(btn);
     list.appendChild(li);
   });
 }
 
+// 修改某个域名的覆盖设置；'' 表示恢复自动选择（从列表中移除）
+function setSiteOverride(hostname: string, value: string): void {
+  const override = fromSiteOverrideValue(value);
+  if (override) {
+    siteOverrides[hostname] = override;
+  } else {
+    delete siteOverrides[hostname];
+  }
+  saveSetting(CONFIG_KEYS.SITE_OVERRIDES, siteOverrides);
+  renderSiteOverrides();
+
+  // 未适配的域名需要加入自定义网址，内容脚本才会在该网站上运行
+  ensureContentScriptHost(hostname, override).then((urls) => {
+    if (urls) renderCustomUrls(urls);
+  }).catch((error) => {
+    // console.error('添加自定义网址失败:', error);
+  });
+}
+
+// 添加按域名覆盖设置
+function addSiteOverride(): void {
+  const input = document.getElementById('site-override-host') as HTMLInputElement;
+  const modeSelect = document.getElementById('site-override-mode') as HTMLSelectElement;
+  const value = input.value.trim();
+  if (!value || !modeSelect.value) return;
+
+  // 覆盖设置按 hostname 完全匹配，接受带协议或路径的网址
+  let hostname = value;
+  try {
+    hostname = new URL(value.startsWith('http') ? value : `https://${value}`).hostname;
+  } catch {
+    alert(getTranslation('options.domain.invalid', currentLanguage));
+    return;
+  }
+
+  setSiteOverride(hostname, modeSelect.value);
+  input.value = '';
+}
+
+// 渲染选择器规则包状态；传入 error 时显示导入错误
+function renderSelectorBundleStatus(error?: string): void {
+  const status = document.getElementById('selector-bundle-status');
+  const removeBtn = document.getElementById('selector-bundle-remove');
+  if (!status) return;
+
+  if (removeBtn) {
+    removeBtn.style.display = selectorBundleOverride ? '' : 'none';
+  }
+
+  if (error) {
+    status.style.color = '#e53935';
+    status.textContent = error;
+    return;
+  }
+
+  const override = selectorBundleOverride;
+  if (!override) {
+    status.style.color = '#555';
+    status.textContent = getTranslation('options.selectors.builtIn', currentLanguage)
+      .replace('{version}', String(BUILT_IN_SELECTOR_BUNDLE.version));
+  } else if (isSelectorBundleOutdated(override)) {
+    status.style.color = '#ef6c00';
+    status.textContent = getTranslation('options.selectors.outdated', currentLanguage)
+      .replace('{version}', String(override.version))
+      .replace('{builtIn}', String(BUILT_IN_SELECTOR_BUNDLE.version));
+  } else {
+    status.style.color = '#2e7d32';
+    status.textContent = getTranslation('options.selectors.active', currentLanguage)
+      .replace('{version}', String(override.version))
+      .replace('{sites}', Object.keys(override.sites).join(', '));
+  }
+}
+
+// 导入选择器覆盖规则包
+async function importSelectorBundle(file: File): Promise<void> {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    renderSelectorBundleStatus(getTranslation('options.selectors.error.parse', currentLanguage));
+    return;
+  }
+
+  const errors = validateSelectorBundle(raw);
+  const bundle = normalizeSelectorBundle(raw);
+  if (errors.length > 0 || !bundle) {
+    renderSelectorBundleStatus(errors
+      .map(e => `${e.path ? `${e.path}: ` : ''}${getTranslation(e.messageKey, currentLanguage)}`)
+      .join('; '));
+    return;
+  }
+
+  // 存在 local 中：规则包文件可能超出 sync 的单项配额，而且导入是针对当前设备的临时修复
+  await chrome.storage.local.set({ [SELECTOR_BUNDLE_OVERRIDE_KEY]: bundle });
+  selectorBundleOverride = bundle;
+  renderSelectorBundleStatus();
+  showSaveStatus();
+}
+
+// 导出内置规则包，作为编写覆盖规则的模板
+function exportSelectorBundle(): void {
+  const blob = new Blob([JSON.stringify(BUILT_IN_SELECTOR_BUNDLE, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `selector-bundle-v${BUILT_IN_SELECTOR_BUNDLE.version}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // 添加自定义 URL
 function addCustomUrl(): void {
   const input = document.getElementById('custom-url-input') as HTMLInputElement;
@@ -161,6 +472,13 @@ async function saveSetting(key: string, value: any): Promise<void> {
   }
 }
 
+// 保存自定义站点规则；失败时抛出，由规则编辑器显示原因
+async function saveCustomRules(rules: CustomSiteRulesMap): Promise<void> {
+  await chrome.storage.sync.set({ [CONFIG_KEYS.CUSTOM_SITE_RULES]: rules });
+  customRules = rules;
+  showSaveStatus();
+}
+
 // 显示保存状态提示
 function showSaveStatus(): void {
   const status = document.getElementById('save-status');
@@ -216,6 +534,27 @@ document.addEventListener('DOMContentLoaded', () => {
         const urls = result[CONFIG_KEYS.CUSTOM_URLS] || [];
         renderCustomUrls(urls);
       });
+      renderSiteOverrides();
+      renderSelectorBundleStatus();
+    });
+  }
+  
+  // 监听章节导航开关
+  const sectionToggle = document.getElementById('section-navigation') as HTMLInputElement;
+  const stepModeSelect = document.getElementById('nav-step-mode') as HTMLSelectElement;
+  if (sectionToggle) {
+    sectionToggle.addEventListener('change', () => {
+      saveSetting(CONFIG_KEYS.SECTION_NAVIGATION, sectionToggle.checked);
+      if (stepModeSelect) {
+        stepModeSelect.disabled = !sectionToggle.checked;
+      }
+    });
+  }
+
+  // 监听步进方式变化
+  if (stepModeSelect) {
+    stepModeSelect.addEventListener('change', () => {
+      saveSetting(CONFIG_KEYS.NAV_STEP_MODE, stepModeSelect.value);
     });
   }
   
@@ -234,4 +573,39 @@ document.addEventListener('DOMContentLoaded', () => {
       }
     });
   }
+
+  // 按域名覆盖设置
+  const overrideAddBtn = document.getElementById('site-override-add');
+  if (overrideAddBtn) {
+    overrideAddBtn.addEventListener('click', addSiteOverride);
+  }
+  const overrideHostInput = document.getElementById('site-override-host');
+  if (overrideHostInput) {
+    overrideHostInput.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        addSiteOverride();
+      }
+    });
+  }
+
+  // 选择器规则包导入、导出与移除
+  const bundleFileInput = document.getElementById('selector-bundle-file') as HTMLInputElement;
+  document.getElementById('selector-bundle-import')?.addEventListener('click', () => {
+    bundleFileInput?.click();
+  });
+  bundleFileInput?.addEventListener('change', () => {
+    const file = bundleFileInput.files?.[0];
+    if (file) {
+      importSelectorBundle(file);
+    }
+    // 允许重复导入同一个文件
+    bundleFileInput.value = '';
+  });
+  document.getElementById('selector-bundle-export')?.addEventListener('click', exportSelectorBundle);
+  document.getElementById('selector-bundle-remove')?.addEventListener('click', async () => {
+    await chrome.storage.local.remove(SELECTOR_BUNDLE_OVERRIDE_KEY);
+    selectorBundleOverride = null;
+    renderSelectorBundleStatus();
+    showSaveStatus();
+  });
 });
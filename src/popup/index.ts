@@ -1,5 +1,15 @@
 // Popup script
 import { getTranslation, type Language } from '../utils/i18n';
+import { formatDiagnosticReport, loadDiagnosticReports } from '../utils/adapterDiagnostics';
+import {
+  fillSiteOverrideSelect,
+  fromSiteOverrideValue,
+  normalizeSiteOverridesMap,
+  saveSiteOverride,
+  SITE_OVERRIDES_KEY,
+  toSiteOverrideValue
+} from '../utils/siteOverrides';
+import { getAllAdapters } from '../content/siteAdapters/index';
 
 document.addEventListener('DOMContentLoaded', async () => {
   // 1. 设置快捷键链接点击事件
@@ -25,9 +35,10 @@ document.addEventListener('DOMContentLoaded', async () => {
   }
 
   // 3. 加载语言设置并翻译
+  let currentLang: Language = 'auto';
   try {
     const { language } = await chrome.storage.sync.get(['language']);
-    const currentLang = (language || 'auto') as Language;
+    currentLang = (language || 'auto') as Language;
     
     applyTranslations(currentLang);
   } catch (e) {
@@ -35,8 +46,141 @@ document.addEventListener('DOMContentLoaded', async () => {
     // 默认为 auto -> en/zh
     applyTranslations('auto');
   }
+
+  // 4. 元素拾取器：在当前标签页启动，用于为未适配的网站生成规则
+  const pickerBtn = document.getElementById('picker-btn');
+  const pickerStatus = document.getElementById('picker-status');
+  if (pickerBtn) {
+    pickerBtn.addEventListener('click', async () => {
+      const started = await startRulePicker();
+      if (started) {
+        window.close();
+      } else if (pickerStatus) {
+        pickerStatus.textContent = getTranslation('popup.picker.failed', currentLang);
+        pickerStatus.hidden = false;
+      }
+    });
+  }
+
+  // 5. 当前网站的适配器覆盖设置
+  await renderSiteOverride(currentLang);
+
+  // 6. 当前网站存在适配器诊断报告时，提供复制入口
+  await renderDiagnostics(currentLang);
 });
 
+/**
+ * 获取当前标签页的域名（非网页时返回 null）
+ */
+async function getActiveTabHostname(): Promise<string | null> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.url) return null;
+
+  try {
+    const url = new URL(tab.url);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 展示并编辑当前网站的适配器覆盖设置（停用 / 强制适配器 / 自定义规则）
+ * 内容脚本监听存储变化，修改后无需刷新页面；未适配的网站会先加入自定义网址，需要刷新一次
+ */
+async function renderSiteOverride(lang: Language): Promise<void> {
+  const container = document.getElementById('site-override');
+  const label = document.getElementById('site-override-label');
+  const select = document.getElementById('site-override-select') as HTMLSelectElement | null;
+  const hint = document.getElementById('site-override-hint');
+  if (!container || !label || !select) return;
+
+  const hostname = await getActiveTabHostname();
+  if (!hostname) return;
+
+  const result = await chrome.storage.sync.get(SITE_OVERRIDES_KEY);
+  const overrides = normalizeSiteOverridesMap(result[SITE_OVERRIDES_KEY]);
+
+  label.textContent = getTranslation('popup.siteOverride', lang).replace('{site}', hostname);
+  fillSiteOverrideSelect(select, getAllAdapters().map(adapter => adapter.name), lang);
+  select.value = toSiteOverrideValue(overrides[hostname]);
+  select.addEventListener('change', async () => {
+    try {
+      const hostAdded = await saveSiteOverride(hostname, fromSiteOverrideValue(select.value));
+      if (hostAdded && hint) {
+        hint.textContent = getTranslation('popup.siteOverride.reload', lang);
+        hint.hidden = false;
+      }
+    } catch (e) {
+      // console.error('Failed to save site override:', e);
+    }
+  });
+  container.hidden = false;
+}
+
+/**
+ * 展示当前标签页所在域名的适配器诊断报告
+ */
+async function renderDiagnostics(lang: Language): Promise<void> {
+  const container = document.getElementById('diagnostics');
+  const text = document.getElementById('diagnostics-text');
+  const copyBtn = document.getElementById('diagnostics-copy');
+  if (!container || !text || !copyBtn) return;
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.url) return;
+
+  let hostname = '';
+  try {
+    hostname = new URL(tab.url).hostname;
+  } catch {
+    return;
+  }
+
+  const reports = await loadDiagnosticReports();
+  const report = reports[hostname];
+  if (!report) return;
+
+  text.textContent = getTranslation('popup.diagnostics', lang).replace('{site}', report.adapterName);
+  copyBtn.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticReport(report));
+      copyBtn.textContent = getTranslation('diagnostics.copied', lang);
+    } catch {
+      copyBtn.textContent = getTranslation('diagnostics.copyFailed', lang);
+    }
+  });
+  container.hidden = false;
+}
+
+/**
+ * 在当前标签页启动规则拾取器
+ * 页面尚未注入内容脚本（未适配的网站）时先注入再重试
+ */
+async function startRulePicker(): Promise<boolean> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) return false;
+
+  try {
+    await chrome.tabs.sendMessage(tab.id, { type: 'LLM_NAV_START_RULE_PICKER' });
+    return true;
+  } catch {
+    // 内容脚本不存在，继续尝试注入
+  }
+
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      files: ['content/index.js']
+    });
+    await chrome.tabs.sendMessage(tab.id, { type: 'LLM_NAV_START_RULE_PICKER' });
+    return true;
+  } catch {
+    // chrome:// 等受限页面无法注入
+    return false;
+  }
+}
+
 function applyTranslations(lang: Language) {
   const elements = document.querySelectorAll('[data-i18n]');
   elements.forEach(el => {
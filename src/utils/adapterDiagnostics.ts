@@ -0,0 +1,154 @@
+/**
+ * 适配器健康诊断报告
+ * 内置适配器匹配了 URL 却扫描不到任何提问时，内容脚本会生成一份报告，
+ * 按域名保存在 chrome.storage.local 中，供弹窗一键复制到问题反馈里
+ */
+
+export interface SelectorHit {
+  selector: string;
+  /** 命中数量，-1 表示选择器无法解析 */
+  count: number;
+}
+
+export interface DomSignature {
+  /** 根节点下的元素总数 */
+  elementCount: number;
+  /** 根节点文本长度 */
+  textLength: number;
+  /** 常见结构元素数量 */
+  landmarks: Record<string, number>;
+  /** 出现最多的 data-* 属性名 */
+  topDataAttributes: Array<[string, number]>;
+  /** 出现最多的 role 值 */
+  topRoles: Array<[string, number]>;
+  /** 出现的自定义元素标签 */
+  customElements: string[];
+  /** 出现最多的类名 */
+  topClasses: Array<[string, number]>;
+  /** 以上结构信息的短哈希，便于比对不同报告 */
+  hash: string;
+}
+
+export interface AdapterDiagnosticReport {
+  adapterName: string;
+  hostname: string;
+  /** 去除对话 ID 等可变片段后的 URL 模式 */
+  urlPattern: string;
+  timestamp: number;
+  extensionVersion: string;
+  userAgent: string;
+  promptCount: number;
+  selectorHits: SelectorHit[];
+  domSignature: DomSignature;
+}
+
+export type AdapterDiagnosticReportMap = Record<string, AdapterDiagnosticReport>;
+
+export const DIAGNOSTICS_STORAGE_KEY = 'llm-nav-diagnostics';
+
+/**
+ * 只保留最近若干个域名的报告，避免长期堆积
+ */
+const MAX_REPORTS = 10;
+
+/**
+ * 把 URL 中像 ID 的路径片段替换为 :id，并去掉查询参数的值
+ */
+export function toUrlPattern(location: Location): string {
+  const path = location.pathname
+    .split('/')
+    .map((segment) => {
+      if (!segment) return segment;
+      const looksLikeId = /^[0-9a-f-]{16,}$/i.test(segment) ||
+                          (/\d/.test(segment) && segment.length >= 8);
+      return looksLikeId ? ':id' : segment;
+    })
+    .join('/');
+
+  const keys: string[] = [];
+  new URLSearchParams(location.search).forEach((_, key) => {
+    if (!keys.includes(key)) keys.push(key);
+  });
+  const query = keys.length > 0 ? `?${keys.map((key) => `${key}=*`).join('&')}` : '';
+
+  return `${location.hostname}${path}${query}`;
+}
+
+export async function loadDiagnosticReports(): Promise<AdapterDiagnosticReportMap> {
+  try {
+    const result = await chrome.storage.local.get(DIAGNOSTICS_STORAGE_KEY);
+    const raw = result[DIAGNOSTICS_STORAGE_KEY];
+    return raw && typeof raw === 'object' ? raw as AdapterDiagnosticReportMap : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function saveDiagnosticReport(report: AdapterDiagnosticReport): Promise<void> {
+  const reports = await loadDiagnosticReports();
+  reports[report.hostname] = report;
+
+  const kept = Object.values(reports)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_REPORTS);
+  const next: AdapterDiagnosticReportMap = {};
+  kept.forEach((item) => {
+    next[item.hostname] = item;
+  });
+
+  try {
+    await chrome.storage.local.set({ [DIAGNOSTICS_STORAGE_KEY]: next });
+  } catch {
+    // 存储失败不影响页面功能
+  }
+}
+
+/**
+ * 适配器恢复正常后移除该域名的报告
+ */
+export async function removeDiagnosticReport(hostname: string): Promise<void> {
+  const reports = await loadDiagnosticReports();
+  if (!reports[hostname]) return;
+
+  delete reports[hostname];
+  try {
+    await chrome.storage.local.set({ [DIAGNOSTICS_STORAGE_KEY]: reports });
+  } catch {
+    // 存储失败不影响页面功能
+  }
+}
+
+/**
+ * 格式化为便于粘贴到问题反馈中的文本
+ */
+export function formatDiagnosticReport(report: AdapterDiagnosticReport): string {
+  const pairs = (list: Array<[string, number]>): string =>
+    list.length > 0 ? list.map(([name, count]) => `${name}(${count})`).join(', ') : '-';
+  const sig = report.domSignature;
+
+  const lines = [
+    '### Adapter diagnostic report',
+    `- Adapter: ${report.adapterName}`,
+    `- URL pattern: ${report.urlPattern}`,
+    `- Time: ${new Date(report.timestamp).toISOString()}`,
+    `- Extension version: ${report.extensionVersion}`,
+    `- User agent: ${report.userAgent}`,
+    `- Prompts found: ${report.promptCount}`,
+    '',
+    '#### Selector hits',
+    ...report.selectorHits.map((hit) =>
+      `- \`${hit.selector}\`: ${hit.count < 0 ? 'invalid' : hit.count}`
+    ),
+    '',
+    '#### DOM signature',
+    `- Hash: ${sig.hash}`,
+    `- Elements: ${sig.elementCount}, text length: ${sig.textLength}`,
+    `- Landmarks: ${Object.entries(sig.landmarks).map(([name, count]) => `${name}(${count})`).join(', ')}`,
+    `- data-* attributes: ${pairs(sig.topDataAttributes)}`,
+    `- Roles: ${pairs(sig.topRoles)}`,
+    `- Custom elements: ${sig.customElements.length > 0 ? sig.customElements.join(', ') : '-'}`,
+    `- Classes: ${pairs(sig.topClasses)}`
+  ];
+
+  return lines.join('\n');
+}
@@ -0,0 +1,172 @@
+/**
+ * 自定义站点规则
+ * custom_urls 中的每个域名都可以在 custom_site_rules 中携带一套选择器规则，
+ * 内容脚本据此构建专用适配器，而不是依赖通用的猜测策略
+ */
+export interface CustomSiteRules {
+  /** 用户消息选择器 */
+  userSelector: string;
+  /** AI 回答选择器 */
+  assistantSelector: string;
+  /** 滚动容器选择器（可选） */
+  scrollContainerSelector: string;
+  /** 需要排除的节点选择器（命中或位于其内部的消息会被忽略） */
+  excludeSelectors: string[];
+  /** 对话 ID 提取正则，作用于 pathname + search，取第一个捕获组 */
+  conversationIdPattern: string;
+  /** 正在生成回答时页面上出现的元素（通常是停止按钮，可选，留空时使用通用规则） */
+  generatingSelector: string;
+}
+
+export type CustomSiteRulesMap = Record<string, CustomSiteRules>;
+
+export const CUSTOM_SITE_RULES_KEY = 'custom_site_rules';
+
+export function createEmptyRules(): CustomSiteRules {
+  return {
+    userSelector: '',
+    assistantSelector: '',
+    scrollContainerSelector: '',
+    excludeSelectors: [],
+    conversationIdPattern: '',
+    generatingSelector: ''
+  };
+}
+
+/**
+ * 存储错误的可读描述（chrome.storage 的配额错误只有 message）
+ */
+export function describeStorageError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return String(error);
+}
+
+/**
+ * 规范化存储中读取的规则，丢弃无法识别的字段
+ */
+export function normalizeRules(raw: any): CustomSiteRules | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+  const excludeRaw = Array.isArray(raw.excludeSelectors)
+    ? raw.excludeSelectors
+    : typeof raw.excludeSelectors === 'string'
+      ? raw.excludeSelectors.split('\n')
+      : [];
+
+  const rules: CustomSiteRules = {
+    userSelector: str(raw.userSelector),
+    assistantSelector: str(raw.assistantSelector),
+    scrollContainerSelector: str(raw.scrollContainerSelector),
+    excludeSelectors: excludeRaw.map(str).filter(Boolean),
+    conversationIdPattern: str(raw.conversationIdPattern),
+    generatingSelector: str(raw.generatingSelector)
+  };
+
+  return rules.userSelector ? rules : null;
+}
+
+export function normalizeRulesMap(raw: any): CustomSiteRulesMap {
+  const map: CustomSiteRulesMap = {};
+  if (!raw || typeof raw !== 'object') return map;
+
+  Object.keys(raw).forEach((domain) => {
+    const rules = normalizeRules(raw[domain]);
+    if (rules) map[domain] = rules;
+  });
+  return map;
+}
+
+/**
+ * 判断 hostname 是否命中自定义域名
+ * 支持完全匹配与双向子域名匹配
+ */
+export function matchesCustomDomain(hostname: string, domain: string): boolean {
+  // 完全匹配
+  if (hostname === domain) return true;
+  // 子域名匹配：hostname 以 .domain 结尾（例如 www.example.com 匹配 example.com）
+  if (hostname.endsWith('.' + domain)) return true;
+  // 反向匹配：domain 以 .hostname 结尾（例如 example.com 匹配 www.example.com）
+  if (domain.endsWith('.' + hostname)) return true;
+  return false;
+}
+
+export function findCustomDomain(hostname: string, customUrls: string[]): string | null {
+  return customUrls.find((domain) => matchesCustomDomain(hostname, domain)) || null;
+}
+
+export type RulesValidationField = keyof CustomSiteRules;
+
+export interface RulesValidationError {
+  field: RulesValidationField;
+  /** i18n key */
+  messageKey: string;
+}
+
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 校验规则：选择器必须可解析，正则必须可编译且包含捕获组
+ * @returns 错误列表，为空表示通过
+ */
+export function validateRules(rules: CustomSiteRules): RulesValidationError[] {
+  const errors: RulesValidationError[] = [];
+
+  if (!rules.userSelector) {
+    errors.push({ field: 'userSelector', messageKey: 'options.rules.error.userRequired' });
+  } else if (!isValidSelector(rules.userSelector)) {
+    errors.push({ field: 'userSelector', messageKey: 'options.rules.error.selector' });
+  }
+
+  if (rules.assistantSelector && !isValidSelector(rules.assistantSelector)) {
+    errors.push({ field: 'assistantSelector', messageKey: 'options.rules.error.selector' });
+  }
+
+  if (rules.scrollContainerSelector && !isValidSelector(rules.scrollContainerSelector)) {
+    errors.push({ field: 'scrollContainerSelector', messageKey: 'options.rules.error.selector' });
+  }
+
+  if (rules.excludeSelectors.some((selector) => !isValidSelector(selector))) {
+    errors.push({ field: 'excludeSelectors', messageKey: 'options.rules.error.selector' });
+  }
+
+  if (rules.generatingSelector && !isValidSelector(rules.generatingSelector)) {
+    errors.push({ field: 'generatingSelector', messageKey: 'options.rules.error.selector' });
+  }
+
+  if (rules.conversationIdPattern) {
+    try {
+      const regex = new RegExp(rules.conversationIdPattern);
+      // 通过匹配空分组的方式统计捕获组数量
+      const groupCount = new RegExp(`${regex.source}|`).exec('')!.length - 1;
+      if (groupCount < 1) {
+        errors.push({ field: 'conversationIdPattern', messageKey: 'options.rules.error.patternGroup' });
+      }
+    } catch {
+      errors.push({ field: 'conversationIdPattern', messageKey: 'options.rules.error.pattern' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 按规则从 URL 中提取对话 ID
+ */
+export function extractConversationIdByPattern(location: Location, pattern: string): string | null {
+  if (!pattern) return null;
+  try {
+    const match = new RegExp(pattern).exec(location.pathname + location.search);
+    return match && match[1] ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
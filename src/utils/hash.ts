@@ -0,0 +1,11 @@
+/**
+ * 简单的字符串哈希（djb2）
+ * 用于生成短指纹，不具备加密强度
+ */
+export function hashString(input: string): string {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
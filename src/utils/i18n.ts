@@ -20,6 +20,12 @@ export const messages = {
     'options.theme.orange': '橘黄色',
     'options.theme.christmas': '圣诞',
     'options.theme.scifi': '未来',
+    'options.sections': '回答内章节导航',
+    'options.sections.desc': '在时间线上显示长回答中的标题',
+    'options.stepMode': '上一个/下一个',
+    'options.stepMode.desc': '快捷键按提问或按章节跳转',
+    'options.stepMode.prompt': '按提问',
+    'options.stepMode.section': '按章节',
     'options.sites': '站点支持',
     'options.sites.custom.desc': '添加其他 LLM 网站（默认使用通用适配逻辑）',
     'options.sites.custom.placeholder': '输入域名，如: chat.example.com',
@@ -36,6 +42,50 @@ export const messages = {
     'options.save.success': '✓ 设置已保存',
     'options.domain.invalid': '请输入有效的域名',
     'options.domain.exists': '该域名已存在',
+    'options.rules.edit': '规则',
+    'options.rules.configured': '已配置规则',
+    'options.rules.user': '用户消息选择器',
+    'options.rules.assistant': 'AI 回答选择器',
+    'options.rules.scroll': '滚动容器选择器',
+    'options.rules.exclude': '排除选择器（每行一个）',
+    'options.rules.conversationId': '对话 ID 正则（取第一个捕获组）',
+    'options.rules.generating': '生成中标记选择器（例如停止按钮，可选）',
+    'options.rules.validate': '校验',
+    'options.rules.save': '保存规则',
+    'options.rules.clear': '清除规则',
+    'options.rules.valid': '✓ 规则有效',
+    'options.rules.saveFailed': '保存失败：{error}',
+    'options.rules.error.userRequired': '用户消息选择器不能为空',
+    'options.rules.error.selector': '选择器语法无效',
+    'options.rules.error.pattern': '正则表达式无效',
+    'options.rules.error.patternGroup': '正则需要包含一个捕获组',
+    'options.overrides': '按网站设置',
+    'options.overrides.desc': '为指定域名停用扩展、强制使用某个适配器或使用自定义规则',
+    'options.overrides.placeholder': '输入域名，如: chat.qwen.ai',
+    'options.selectors': '内置站点选择器',
+    'options.selectors.desc': '站点改版导致无法识别时，可导入他人分享的选择器规则包，无需等待扩展更新',
+    'options.selectors.import': '导入规则包',
+    'options.selectors.export': '导出内置规则包',
+    'options.selectors.remove': '移除覆盖',
+    'options.selectors.builtIn': '正在使用内置规则包 v{version}',
+    'options.selectors.active': '已导入覆盖规则包 v{version}，覆盖站点：{sites}',
+    'options.selectors.outdated': '已导入的规则包 v{version} 早于内置规则包 v{builtIn}，不会生效',
+    'options.selectors.error.parse': '文件不是有效的 JSON',
+    'options.selectors.error.format': '格式不正确',
+    'options.selectors.error.version': '缺少有效的版本号',
+    'options.selectors.error.site': '未知的站点',
+    'options.selectors.error.key': '未知的选择器',
+    'options.selectors.error.selector': '选择器语法无效',
+    'picker.title': '拾取对话元素',
+    'picker.step.user': '第 1 步：点击页面上任意一条你发送的消息（Esc 退出）',
+    'picker.step.assistant': '第 2 步：点击任意一条 AI 的回答',
+    'picker.preview.counts': '匹配到 {user} 条提问、{assistant} 条回答',
+    'picker.save': '保存规则',
+    'picker.repick': '重新拾取',
+    'picker.cancel': '取消',
+    'picker.launch': '开始拾取',
+    'picker.launch.title': '在当前页面拾取元素',
+    'picker.launch.desc': '依次点击提问和回答，自动生成选择器规则',
 
     // Popup Page
     'popup.title': 'Ai Chat Quick jump',
@@ -48,11 +98,44 @@ export const messages = {
     'popup.hint.shortcuts': '快捷键访问',
     'popup.hint.modify': '修改。',
     'popup.feedback': '任何意见想法，欢迎访问',
+    'popup.picker': '🎯 为当前网站拾取元素',
+    'popup.picker.failed': '无法在此页面启动拾取器',
+    'popup.siteOverride': '在 {site} 上使用',
+    'popup.siteOverride.reload': '已将该网站加入自定义网址，刷新页面后生效',
+    'siteOverride.auto': '自动识别',
+    'siteOverride.disabled': '停用扩展',
+    'siteOverride.custom': '自定义规则适配器',
+    'siteOverride.adapters': '强制使用适配器',
+    'popup.diagnostics': '⚠️ {site} 适配器在此网站上未识别到对话，可能是网站改版导致。',
+    'popup.diagnostics.copy': '复制诊断报告',
+    'diagnostics.warning': '页面上有对话内容，但 {site} 适配器没有识别到任何提问，网站可能已改版。可复制诊断报告用于反馈。',
+    'diagnostics.copy': '复制报告',
+    'diagnostics.copied': '已复制',
+    'diagnostics.copyFailed': '复制失败',
+    'diagnostics.dismiss': '关闭',
+
+    // Timeline
+    'timeline.newAnswer': '新回答已生成 ↓',
 
     // Favorites
     'favorites.unnamed': '未命名对话',
+    'variant.label': '版本 {active}/{count}',
+    'variant.edited': '（已编辑）',
+    'variant.pinned': '标记于版本 {active}/{count}',
+    'sources.count': '{count} 个来源',
+    'sources.one': '1 个来源',
+    'summary.truncated': '…',
+    'summary.image': '[图片]',
+    'summary.images': '[{count} 张图片]',
+    'summary.file': '[文件: {name}]',
+    'summary.fileUnnamed': '[文件]',
+    'summary.code': '[代码: {languages}]',
+    'summary.codeBlock': '[代码]',
+    'summary.chart': '[图表]',
+    'summary.empty': '[空提问]',
     'favorites.add': '收藏当前对话',
     'favorites.remove': '取消收藏',
+    'favorites.shared': '分享',
     'favorites.viewAll': '查看所有收藏',
     'favorites.list': '收藏列表',
     'favorites.empty': '暂无收藏',
@@ -112,6 +195,12 @@ export const messages = {
     'options.theme.orange': 'Orange',
     'options.theme.christmas': 'Christmas',
     'options.theme.scifi': 'Future',
+    'options.sections': 'Section Navigation',
+    'options.sections.desc': 'Show headings of long answers on the timeline',
+    'options.stepMode': 'Previous / Next',
+    'options.stepMode.desc': 'Shortcuts step through prompts or sections',
+    'options.stepMode.prompt': 'By prompt',
+    'options.stepMode.section': 'By section',
     'options.sites': 'Site Support',
     'options.sites.custom.desc': 'Add other LLM websites (uses generic adapter)',
     'options.sites.custom.placeholder': 'Enter domain, e.g., chat.example.com',
@@ -128,6 +217,50 @@ export const messages = {
     'options.save.success': '✓ Settings Saved',
     'options.domain.invalid': 'Please enter a valid domain',
     'options.domain.exists': 'Domain already exists',
+    'options.rules.edit': 'Rules',
+    'options.rules.configured': 'Rules configured',
+    'options.rules.user': 'User message selector',
+    'options.rules.assistant': 'Assistant message selector',
+    'options.rules.scroll': 'Scroll container selector',
+    'options.rules.exclude': 'Exclusion selectors (one per line)',
+    'options.rules.conversationId': 'Conversation ID pattern (first capture group)',
+    'options.rules.generating': 'Generating indicator selector (e.g. the stop button, optional)',
+    'options.rules.validate': 'Validate',
+    'options.rules.save': 'Save rules',
+    'options.rules.clear': 'Clear rules',
+    'options.rules.valid': '✓ Rules are valid',
+    'options.rules.saveFailed': 'Save failed: {error}',
+    'options.rules.error.userRequired': 'User message selector is required',
+    'options.rules.error.selector': 'Invalid selector syntax',
+    'options.rules.error.pattern': 'Invalid regular expression',
+    'options.rules.error.patternGroup': 'Pattern needs a capture group',
+    'options.overrides': 'Per-site settings',
+    'options.overrides.desc': 'Disable the extension, force an adapter or use custom rules for a specific domain',
+    'options.overrides.placeholder': 'Enter domain, e.g., chat.qwen.ai',
+    'options.selectors': 'Built-in site selectors',
+    'options.selectors.desc': 'When a site redesign breaks detection, import a shared selector bundle instead of waiting for an extension update',
+    'options.selectors.import': 'Import bundle',
+    'options.selectors.export': 'Export built-in bundle',
+    'options.selectors.remove': 'Remove override',
+    'options.selectors.builtIn': 'Using the built-in bundle v{version}',
+    'options.selectors.active': 'Override bundle v{version} active for: {sites}',
+    'options.selectors.outdated': 'Imported bundle v{version} is older than the built-in bundle v{builtIn} and is ignored',
+    'options.selectors.error.parse': 'The file is not valid JSON',
+    'options.selectors.error.format': 'Invalid format',
+    'options.selectors.error.version': 'Missing a valid version number',
+    'options.selectors.error.site': 'Unknown site',
+    'options.selectors.error.key': 'Unknown selector',
+    'options.selectors.error.selector': 'Invalid selector syntax',
+    'picker.title': 'Pick conversation elements',
+    'picker.step.user': 'Step 1: click any message you sent (Esc to exit)',
+    'picker.step.assistant': 'Step 2: click any AI answer',
+    'picker.preview.counts': 'Matched {user} prompts and {assistant} answers',
+    'picker.save': 'Save rules',
+    'picker.repick': 'Pick again',
+    'picker.cancel': 'Cancel',
+    'picker.launch': 'Start',
+    'picker.launch.title': 'Pick elements on this page',
+    'picker.launch.desc': 'Click a prompt and an answer to generate selector rules',
 
     // Popup Page
     'popup.title': 'Ai Chat Quick jump',
@@ -140,11 +273,44 @@ export const messages = {
     'popup.hint.shortcuts': 'Visit',
     'popup.hint.modify': 'to modify shortcuts.',
     'popup.feedback': 'Feedback & Suggestions: ',
+    'popup.picker': '🎯 Pick elements on this site',
+    'popup.picker.failed': 'Cannot start the picker on this page',
+    'popup.siteOverride': 'On {site}, use',
+    'popup.siteOverride.reload': 'This site was added to your custom sites. Reload the page to apply.',
+    'siteOverride.auto': 'Automatic',
+    'siteOverride.disabled': 'Disabled',
+    'siteOverride.custom': 'Custom rule adapter',
+    'siteOverride.adapters': 'Force adapter',
+    'popup.diagnostics': '⚠️ The {site} adapter found no conversation on this site. The site may have been redesigned.',
+    'popup.diagnostics.copy': 'Copy diagnostic report',
+    'diagnostics.warning': 'This page has chat content, but the {site} adapter found no prompts. The site may have been redesigned. Copy the diagnostic report to file a bug.',
+    'diagnostics.copy': 'Copy report',
+    'diagnostics.copied': 'Copied',
+    'diagnostics.copyFailed': 'Copy failed',
+    'diagnostics.dismiss': 'Dismiss',
+
+    // Timeline
+    'timeline.newAnswer': 'New answer ready ↓',
 
     // Favorites
     'favorites.unnamed': 'Untitled',
+    'variant.label': 'Version {active}/{count}',
+    'variant.edited': '(edited)',
+    'variant.pinned': 'Pinned on version {active}/{count}',
+    'sources.count': '{count} sources',
+    'sources.one': '1 source',
+    'summary.truncated': '…',
+    'summary.image': '[Image]',
+    'summary.images': '[{count} images]',
+    'summary.file': '[File: {name}]',
+    'summary.fileUnnamed': '[File]',
+    'summary.code': '[Code: {languages}]',
+    'summary.codeBlock': '[Code]',
+    'summary.chart': '[Chart]',
+    'summary.empty': '[Empty prompt]',
     'favorites.add': 'Add to Favorites',
     'favorites.remove': 'Remove from Favorites',
+    'favorites.shared': 'Shared',
     'favorites.viewAll': 'View All Favorites',
     'favorites.list': 'Favorites',
     'favorites.empty': 'No favorites yet',
@@ -0,0 +1,165 @@
+/**
+ * 自定义站点规则编辑器
+ * 设置页和时间线收藏弹窗中的站点设置共用同一个编辑器，只有配色由调用方决定
+ */
+import { getTranslation, type Language } from './i18n';
+import {
+  createEmptyRules,
+  describeStorageError,
+  normalizeRules,
+  validateRules,
+  type CustomSiteRules
+} from './customSiteRules';
+
+export interface RulesEditorTheme {
+  textColor: string;
+  inputBackground: string;
+  borderColor: string;
+  /** 保存按钮的背景色 */
+  primaryColor: string;
+}
+
+export interface RulesEditorOptions {
+  lang: Language;
+  /** 已保存的规则，未配置时为 undefined（此时不显示清除按钮） */
+  rules?: CustomSiteRules;
+  theme: RulesEditorTheme;
+  /** 校验通过后保存规范化的规则；写入失败（例如超出 sync 单项配额）时应抛出错误 */
+  onSave: (rules: CustomSiteRules) => Promise<void>;
+  onClear: () => Promise<void>;
+}
+
+const ERROR_COLOR = '#e53935';
+const SUCCESS_COLOR = '#2e7d32';
+
+const FIELDS: Array<{ key: keyof CustomSiteRules; label: string; multiline?: boolean; placeholder: string }> = [
+  { key: 'userSelector', label: 'options.rules.user', placeholder: '.message.user' },
+  { key: 'assistantSelector', label: 'options.rules.assistant', placeholder: '.message.assistant' },
+  { key: 'scrollContainerSelector', label: 'options.rules.scroll', placeholder: '#chat-scroll' },
+  { key: 'excludeSelectors', label: 'options.rules.exclude', multiline: true, placeholder: '.system-notice' },
+  { key: 'conversationIdPattern', label: 'options.rules.conversationId', placeholder: '/chat/([\\w-]+)' },
+  { key: 'generatingSelector', label: 'options.rules.generating', placeholder: 'button[aria-label="Stop"]' }
+];
+
+/**
+ * 创建规则编辑器，外层容器的边距和分隔线由调用方设置
+ */
+export function createRulesEditor(options: RulesEditorOptions): HTMLElement {
+  const { lang, theme } = options;
+  const t = (key: string) => getTranslation(key, lang);
+  const rules = options.rules || createEmptyRules();
+
+  const editor = document.createElement('div');
+  Object.assign(editor.style, { display: 'grid', gap: '8px' });
+
+  const inputs = new Map<keyof CustomSiteRules, HTMLInputElement | HTMLTextAreaElement>();
+
+  FIELDS.forEach((field) => {
+    const label = document.createElement('label');
+    Object.assign(label.style, { display: 'grid', gap: '4px', fontSize: '12px', color: theme.textColor, opacity: '0.85' });
+    label.textContent = t(field.label);
+
+    const input = field.multiline ? document.createElement('textarea') : document.createElement('input');
+    const value = rules[field.key];
+    input.value = Array.isArray(value) ? value.join('\n') : value;
+    input.placeholder = field.placeholder;
+    if (input instanceof HTMLTextAreaElement) input.rows = 2;
+    Object.assign(input.style, {
+      padding: '6px 8px',
+      border: `1px solid ${theme.borderColor}`,
+      borderRadius: '6px',
+      backgroundColor: theme.inputBackground,
+      color: theme.textColor,
+      fontSize: '12px',
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+      outline: 'none',
+      resize: 'vertical'
+    });
+
+    label.appendChild(input);
+    editor.appendChild(label);
+    inputs.set(field.key, input);
+  });
+
+  const message = document.createElement('div');
+  Object.assign(message.style, { fontSize: '12px', minHeight: '16px' });
+
+  const showMessage = (text: string, isError: boolean) => {
+    message.style.color = isError ? ERROR_COLOR : SUCCESS_COLOR;
+    message.textContent = text;
+  };
+
+  const readRules = (): CustomSiteRules => ({
+    userSelector: inputs.get('userSelector')!.value.trim(),
+    assistantSelector: inputs.get('assistantSelector')!.value.trim(),
+    scrollContainerSelector: inputs.get('scrollContainerSelector')!.value.trim(),
+    excludeSelectors: inputs.get('excludeSelectors')!.value.split('\n').map(v => v.trim()).filter(Boolean),
+    conversationIdPattern: inputs.get('conversationIdPattern')!.value.trim(),
+    generatingSelector: inputs.get('generatingSelector')!.value.trim()
+  });
+
+  // 校验并标红出错字段
+  const check = (): boolean => {
+    const errors = validateRules(readRules());
+    inputs.forEach((input, key) => {
+      input.style.borderColor = errors.some(e => e.field === key) ? ERROR_COLOR : theme.borderColor;
+    });
+    if (errors.length > 0) {
+      showMessage(
+        errors.map(e => `${t(FIELDS.find(f => f.key === e.field)!.label)}: ${t(e.messageKey)}`).join('; '),
+        true
+      );
+      return false;
+    }
+    showMessage(t('options.rules.valid'), false);
+    return true;
+  };
+
+  const actions = document.createElement('div');
+  Object.assign(actions.style, { display: 'flex', gap: '8px', justifyContent: 'flex-end' });
+
+  const createActionButton = (key: string, kind: 'default' | 'primary' | 'danger', onClick: () => void) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = t(key);
+    Object.assign(button.style, {
+      padding: '6px 12px',
+      border: kind === 'primary' ? 'none' : `1px solid ${theme.borderColor}`,
+      borderRadius: '6px',
+      backgroundColor: kind === 'primary' ? theme.primaryColor : 'transparent',
+      color: kind === 'primary' ? '#fff' : kind === 'danger' ? ERROR_COLOR : theme.textColor,
+      cursor: 'pointer',
+      fontSize: '12px'
+    });
+    button.addEventListener('click', onClick);
+    return button;
+  };
+
+  // 存储写入失败时在编辑器内显示原因，而不是静默丢弃
+  const persist = async (write: () => Promise<void>) => {
+    try {
+      await write();
+    } catch (error) {
+      showMessage(t('options.rules.saveFailed').replace('{error}', describeStorageError(error)), true);
+    }
+  };
+
+  if (options.rules) {
+    actions.appendChild(createActionButton('options.rules.clear', 'danger', () => {
+      void persist(options.onClear);
+    }));
+  }
+  actions.appendChild(createActionButton('options.rules.validate', 'default', () => {
+    check();
+  }));
+  actions.appendChild(createActionButton('options.rules.save', 'primary', () => {
+    if (!check()) return;
+    const normalized = normalizeRules(readRules());
+    if (!normalized) return;
+    void persist(() => options.onSave(normalized));
+  }));
+
+  editor.appendChild(message);
+  editor.appendChild(actions);
+  return editor;
+}
@@ -0,0 +1,11 @@
+/**
+ * 回答内章节导航设置
+ */
+
+/** 是否索引回答内的标题并在时间线上显示章节子节点 */
+export const SECTION_NAVIGATION_KEY = 'section_navigation';
+
+/** 上一个/下一个命令的步进方式 */
+export const NAV_STEP_MODE_KEY = 'nav_step_mode';
+
+export type NavStepMode = 'prompt' | 'section';
@@ -0,0 +1,145 @@
+/**
+ * 内置适配器的选择器规则包
+ * 选择器集中在 selectorBundle.json 中，而不是写死在各个适配器里：
+ * 站点改版时可以在设置页导入一份覆盖规则包临时修复，不必等待扩展发布新版本
+ *
+ * 规则包格式：{ "version": 1, "sites": { "chatgpt": { "userMessage": "...", ... } } }
+ * - 字符串值是一个选择器（可以是逗号分隔的选择器列表）
+ * - 数组值是按优先级尝试的备选选择器，前面的命中后不再尝试后面的
+ */
+import builtInBundle from './selectorBundle.json';
+import { isValidSelector } from './customSiteRules';
+
+export type SelectorValue = string | string[];
+
+export interface SelectorBundle {
+  /** 规则包版本，随内置选择器的更新递增 */
+  version: number;
+  /** 按站点索引的选择器 */
+  sites: Record<string, Record<string, SelectorValue>>;
+}
+
+type BuiltInSites = typeof builtInBundle.sites;
+
+/** 规则包中的站点键 */
+export type SelectorSite = keyof BuiltInSites;
+
+/** 某个站点的选择器键 */
+export type SelectorKey<S extends SelectorSite> = keyof BuiltInSites[S] & string;
+
+export const BUILT_IN_SELECTOR_BUNDLE: SelectorBundle = builtInBundle;
+
+/** 覆盖规则包的存储键（chrome.storage.local，文件可能超出 sync 的单项配额） */
+export const SELECTOR_BUNDLE_OVERRIDE_KEY = 'selector_bundle_override';
+
+export interface SelectorBundleError {
+  /** 出错的位置，例如 sites.chatgpt.userMessage */
+  path: string;
+  /** i18n key */
+  messageKey: string;
+}
+
+let activeOverride: SelectorBundle | null = null;
+
+function isSelectorValue(value: unknown): value is SelectorValue {
+  return typeof value === 'string' ||
+    (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string'));
+}
+
+/**
+ * 校验覆盖规则包：版本号、站点和选择器键必须是内置规则包中已有的，选择器必须可解析
+ * @returns 错误列表，为空表示通过
+ */
+export function validateSelectorBundle(raw: any): SelectorBundleError[] {
+  if (!raw || typeof raw !== 'object' || !raw.sites || typeof raw.sites !== 'object') {
+    return [{ path: '', messageKey: 'options.selectors.error.format' }];
+  }
+
+  const errors: SelectorBundleError[] = [];
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    errors.push({ path: 'version', messageKey: 'options.selectors.error.version' });
+  }
+
+  Object.keys(raw.sites).forEach((site) => {
+    const builtInSite = BUILT_IN_SELECTOR_BUNDLE.sites[site];
+    const selectors = raw.sites[site];
+    if (!builtInSite) {
+      errors.push({ path: `sites.${site}`, messageKey: 'options.selectors.error.site' });
+      return;
+    }
+    if (!selectors || typeof selectors !== 'object') {
+      errors.push({ path: `sites.${site}`, messageKey: 'options.selectors.error.format' });
+      return;
+    }
+
+    Object.keys(selectors).forEach((key) => {
+      const path = `sites.${site}.${key}`;
+      const value = selectors[key];
+      if (!(key in builtInSite)) {
+        errors.push({ path, messageKey: 'options.selectors.error.key' });
+      } else if (!isSelectorValue(value)) {
+        errors.push({ path, messageKey: 'options.selectors.error.format' });
+      } else if ((Array.isArray(value) ? value : [value]).some(selector => !isValidSelector(selector))) {
+        errors.push({ path, messageKey: 'options.selectors.error.selector' });
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * 规范化存储或文件中读取的覆盖规则包，校验不通过时返回 null
+ */
+export function normalizeSelectorBundle(raw: any): SelectorBundle | null {
+  if (validateSelectorBundle(raw).length > 0) return null;
+
+  const sites: SelectorBundle['sites'] = {};
+  Object.keys(raw.sites).forEach((site) => {
+    const selectors: Record<string, SelectorValue> = {};
+    Object.keys(raw.sites[site]).forEach((key) => {
+      const value: SelectorValue = raw.sites[site][key];
+      selectors[key] = Array.isArray(value) ? value.map(selector => selector.trim()) : value.trim();
+    });
+    if (Object.keys(selectors).length > 0) sites[site] = selectors;
+  });
+
+  return { version: raw.version, sites };
+}
+
+/**
+ * 覆盖规则包是否早于内置规则包
+ * 扩展更新后内置选择器可能已经修复，旧的覆盖规则不再生效，避免把新的修复盖掉
+ */
+export function isSelectorBundleOutdated(bundle: SelectorBundle): boolean {
+  return bundle.version < BUILT_IN_SELECTOR_BUNDLE.version;
+}
+
+/**
+ * 设置当前生效的覆盖规则包（内容脚本读取存储后调用）
+ */
+export function setSelectorBundleOverride(bundle: SelectorBundle | null): void {
+  activeOverride = bundle && !isSelectorBundleOutdated(bundle) ? bundle : null;
+}
+
+function getSelectorValue<S extends SelectorSite>(site: S, key: SelectorKey<S>): SelectorValue {
+  const override = activeOverride?.sites[site]?.[key];
+  return override ?? BUILT_IN_SELECTOR_BUNDLE.sites[site][key];
+}
+
+/**
+ * 获取站点的选择器；覆盖规则包中有该项时优先使用
+ * 备选列表会合并为一个选择器，适合只需要判断是否命中的场景
+ */
+export function getSiteSelector<S extends SelectorSite>(site: S, key: SelectorKey<S>): string {
+  const value = getSelectorValue(site, key);
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * 获取站点按优先级排列的备选选择器
+ */
+export function getSiteSelectorList<S extends SelectorSite>(site: S, key: SelectorKey<S>): string[] {
+  const value = getSelectorValue(site, key);
+  return Array.isArray(value) ? value : [value];
+}
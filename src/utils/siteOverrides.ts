@@ -0,0 +1,138 @@
+/**
+ * 按域名的适配器覆盖设置
+ * 内置适配器在某个站点变体上表现异常时（例如 ChatGPT 的 Project 页面、chat.qwen.ai 与 qianwen.com），
+ * 可以在弹窗或设置页中为该域名停用扩展、强制使用指定适配器，或改用自定义规则适配器
+ */
+import { getTranslation, type Language } from './i18n';
+import { findCustomDomain } from './customSiteRules';
+
+export type SiteOverrideMode = 'disabled' | 'adapter' | 'custom';
+
+export interface SiteOverride {
+  mode: SiteOverrideMode;
+  /** mode 为 adapter 时强制使用的适配器名称（SiteAdapter.name） */
+  adapterName?: string;
+}
+
+/** 按 hostname 索引（完全匹配，不包含子域名） */
+export type SiteOverridesMap = Record<string, SiteOverride>;
+
+export const SITE_OVERRIDES_KEY = 'site_overrides';
+
+const CUSTOM_URLS_KEY = 'custom_urls';
+
+const MODES: SiteOverrideMode[] = ['disabled', 'adapter', 'custom'];
+
+/**
+ * 规范化存储中读取的覆盖设置，丢弃无法识别的项
+ */
+export function normalizeSiteOverride(raw: any): SiteOverride | null {
+  if (!raw || typeof raw !== 'object' || !MODES.includes(raw.mode)) return null;
+
+  if (raw.mode === 'adapter') {
+    const adapterName = typeof raw.adapterName === 'string' ? raw.adapterName.trim() : '';
+    return adapterName ? { mode: 'adapter', adapterName } : null;
+  }
+  return { mode: raw.mode };
+}
+
+export function normalizeSiteOverridesMap(raw: any): SiteOverridesMap {
+  const map: SiteOverridesMap = {};
+  if (!raw || typeof raw !== 'object') return map;
+
+  Object.keys(raw).forEach((hostname) => {
+    const override = normalizeSiteOverride(raw[hostname]);
+    if (override) map[hostname] = override;
+  });
+  return map;
+}
+
+/**
+ * 覆盖设置与下拉框选项值互相转换：'' 表示自动选择，adapter:{name} 表示强制适配器
+ */
+export function toSiteOverrideValue(override: SiteOverride | undefined): string {
+  if (!override) return '';
+  return override.mode === 'adapter' ? `adapter:${override.adapterName}` : override.mode;
+}
+
+export function fromSiteOverrideValue(value: string): SiteOverride | null {
+  if (value.startsWith('adapter:')) {
+    return normalizeSiteOverride({ mode: 'adapter', adapterName: value.slice('adapter:'.length) });
+  }
+  return normalizeSiteOverride({ mode: value });
+}
+
+/**
+ * 填充覆盖设置下拉框（弹窗和设置页共用）
+ * @param adapterNames - 可强制使用的适配器名称
+ */
+export function fillSiteOverrideSelect(select: HTMLSelectElement, adapterNames: string[], lang: Language): void {
+  select.innerHTML = '';
+
+  const addOption = (parent: HTMLElement, value: string, label: string) => {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    parent.appendChild(option);
+  };
+
+  addOption(select, '', getTranslation('siteOverride.auto', lang));
+  addOption(select, 'disabled', getTranslation('siteOverride.disabled', lang));
+  addOption(select, 'custom', getTranslation('siteOverride.custom', lang));
+
+  const group = document.createElement('optgroup');
+  group.label = getTranslation('siteOverride.adapters', lang);
+  adapterNames.forEach(name => addOption(group, `adapter:${name}`, name));
+  select.appendChild(group);
+}
+
+/**
+ * 域名是否命中 manifest 中声明的内容脚本匹配规则（只比较域名部分）
+ */
+function matchesManifestHost(hostname: string): boolean {
+  const scripts = chrome.runtime.getManifest().content_scripts || [];
+  return scripts.some(script => (script.matches || []).some((pattern) => {
+    const host = pattern.match(/^[^:]+:\/\/([^/]+)/)?.[1];
+    if (!host) return false;
+    if (host === '*') return true;
+    if (host.startsWith('*.')) {
+      const base = host.slice(2);
+      return hostname === base || hostname.endsWith('.' + base);
+    }
+    return hostname === host;
+  }));
+}
+
+/**
+ * 强制适配器或自定义规则只有在内容脚本运行的页面上才会生效
+ * 内容脚本只注入 manifest 中的站点和 custom_urls（由后台脚本注册），
+ * 其他域名需要先加入 custom_urls；manifest 已声明全部 http(s) 的 host_permissions，无需额外申请权限
+ * @returns 加入后的 custom_urls，无需加入时返回 null
+ */
+export async function ensureContentScriptHost(hostname: string, override: SiteOverride | null): Promise<string[] | null> {
+  if (!override || override.mode === 'disabled' || matchesManifestHost(hostname)) return null;
+
+  const result = await chrome.storage.sync.get(CUSTOM_URLS_KEY);
+  const customUrls: string[] = Array.isArray(result[CUSTOM_URLS_KEY]) ? result[CUSTOM_URLS_KEY] : [];
+  if (findCustomDomain(hostname, customUrls)) return null;
+
+  const next = [...customUrls, hostname];
+  await chrome.storage.sync.set({ [CUSTOM_URLS_KEY]: next });
+  return next;
+}
+
+/**
+ * 保存某个域名的覆盖设置，传入 null 表示恢复自动选择
+ * @returns 是否把该域名新加入了 custom_urls（已打开的页面需要刷新后才会注入内容脚本）
+ */
+export async function saveSiteOverride(hostname: string, override: SiteOverride | null): Promise<boolean> {
+  const result = await chrome.storage.sync.get(SITE_OVERRIDES_KEY);
+  const overrides = normalizeSiteOverridesMap(result[SITE_OVERRIDES_KEY]);
+  if (override) {
+    overrides[hostname] = override;
+  } else {
+    delete overrides[hostname];
+  }
+  await chrome.storage.sync.set({ [SITE_OVERRIDES_KEY]: overrides });
+  return !!(await ensureContentScriptHost(hostname, override));
+}
@@ -0,0 +1,54 @@
+/**
+ * 对话 ID 解析测试
+ * 各站点的新对话页面都应返回 NEW_CHAT_CONVERSATION_ID，而不是把路径当作对话 ID
+ */
+import { describe, expect, it } from 'vitest';
+import { getAllAdapters, NEW_CHAT_CONVERSATION_ID, resolveConversationId, type SiteAdapter } from '../src/content/siteAdapters';
+
+interface UrlCase {
+  adapter: string;
+  url: string;
+  /** null 表示新对话 */
+  expected: string | null;
+}
+
+const CASES: UrlCase[] = [
+  { adapter: 'ChatGPT', url: 'https://chatgpt.com/', expected: null },
+  { adapter: 'ChatGPT', url: 'https://chatgpt.com/g/g-p-67a1b2c3d4e5-python/c/6812ab34-cd56-8000-9e0f-1a2b3c4d5e6f', expected: '6812ab34-cd56-8000-9e0f-1a2b3c4d5e6f' },
+  { adapter: 'Claude', url: 'https://claude.ai/new', expected: null },
+  { adapter: 'Claude', url: 'https://claude.ai/chat/0f1e2d3c-4b5a-4968-8776-5a4b3c2d1e0f', expected: '0f1e2d3c-4b5a-4968-8776-5a4b3c2d1e0f' },
+  { adapter: 'Gemini', url: 'https://gemini.google.com/app', expected: null },
+  { adapter: 'Gemini', url: 'https://gemini.google.com/u/1/app', expected: null },
+  { adapter: 'Gemini', url: 'https://gemini.google.com/gem/coding-partner', expected: null },
+  { adapter: 'Gemini', url: 'https://gemini.google.com/u/1/app/5e4d3c2b1a09f8e7', expected: '5e4d3c2b1a09f8e7' },
+  { adapter: '豆包', url: 'https://www.doubao.com/chat/', expected: null },
+  { adapter: '豆包', url: 'https://www.doubao.com/chat/7012345678901234', expected: '7012345678901234' },
+  { adapter: 'ChatGLM', url: 'https://chatglm.cn/main/alltoolsdetail?lang=zh', expected: null },
+  { adapter: 'ChatGLM', url: 'https://chatglm.cn/main/alltoolsdetail?cid=67a1b2c3d4e5f6a7b8c9d0e1', expected: '67a1b2c3d4e5f6a7b8c9d0e1' },
+  { adapter: 'Le Chat', url: 'https://chat.mistral.ai/chat', expected: null },
+  { adapter: 'Le Chat', url: 'https://chat.mistral.ai/chat/3b2a1c0d-9e8f-4a7b-8c6d-5e4f3a2b1c0d', expected: '3b2a1c0d-9e8f-4a7b-8c6d-5e4f3a2b1c0d' },
+  { adapter: 'HuggingChat', url: 'https://huggingface.co/chat/', expected: null },
+  { adapter: 'HuggingChat', url: 'https://huggingface.co/chat/conversation/67a1b2c3d4e5f6a7b8c9d0e1', expected: '67a1b2c3d4e5f6a7b8c9d0e1' },
+  { adapter: '元宝', url: 'https://yuanbao.tencent.com/chat/naQivTmsDa', expected: null },
+  { adapter: '元宝', url: 'https://yuanbao.tencent.com/chat/naQivTmsDa/9a8b7c6d-5e4f-4a3b-2c1d-0e9f8a7b6c5d', expected: '9a8b7c6d-5e4f-4a3b-2c1d-0e9f8a7b6c5d' }
+];
+
+function getAdapter(name: string): SiteAdapter {
+  const adapter = getAllAdapters().find(a => a.name === name);
+  if (!adapter) throw new Error(`Adapter not registered: ${name}`);
+  return adapter;
+}
+
+function toLocation(url: string): Location {
+  return new URL(url) as unknown as Location;
+}
+
+describe.each(CASES)('$adapter $url', ({ adapter: name, url, expected }) => {
+  const adapter = getAdapter(name);
+
+  it('resolves the conversation ID', () => {
+    expect(adapter.isSupported(toLocation(url))).toBe(true);
+    expect(adapter.getConversationId?.(toLocation(url))).toBe(expected ?? NEW_CHAT_CONVERSATION_ID);
+    expect(resolveConversationId(adapter, toLocation(url))).toBe(expected ?? NEW_CHAT_CONVERSATION_ID);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * 跨边界查询的子树根缓存测试
+ * 普通节点增删（例如流式输出）不应让缓存失效，加入或移除 shadow 宿主、iframe 时才重新收集
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import { getDeepRoots, invalidateDeepRoots } from '../src/content/dom/deepQuery';
+
+/** 等待 MutationObserver 回调执行 */
+function flushMutations(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+afterEach(() => {
+  invalidateDeepRoots(document);
+  document.body.innerHTML = '';
+});
+
+describe('getDeepRoots cache', () => {
+  it('survives plain node additions', async () => {
+    const roots = getDeepRoots(document);
+    const paragraph = document.createElement('p');
+    paragraph.textContent = 'streaming…';
+    document.body.appendChild(paragraph);
+    await flushMutations();
+    expect(getDeepRoots(document)).toBe(roots);
+  });
+
+  it('is invalidated when a shadow host is added inside a wrapper', async () => {
+    const roots = getDeepRoots(document);
+    const wrapper = document.createElement('div');
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' }).innerHTML = '<p>inside</p>';
+    wrapper.appendChild(host);
+    document.body.appendChild(wrapper);
+    await flushMutations();
+
+    const updated = getDeepRoots(document);
+    expect(updated).not.toBe(roots);
+    expect(updated).toContain(host.shadowRoot);
+  });
+
+  it('is invalidated when a shadow host is removed', async () => {
+    const host = document.createElement('div');
+    host.attachShadow({ mode: 'open' });
+    document.body.appendChild(host);
+    const roots = getDeepRoots(document);
+    expect(roots).toContain(host.shadowRoot);
+
+    host.remove();
+    await flushMutations();
+    expect(getDeepRoots(document)).not.toContain(host.shadowRoot);
+  });
+});
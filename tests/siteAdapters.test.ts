@@ -0,0 +1,139 @@
+/**
+ * 内置站点适配器的结构测试
+ * 每个夹具是一段保存下来的对话 DOM，包含五轮对话：
+ * 普通文本、只有附件、回答为空、没有回答、正在流式输出
+ * 夹具中的回答容器带有 data-fixture-answer，生成中标记带有 data-fixture-generating
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { getAllAdapters, type PromptAnswerPair, type SiteAdapter } from '../src/content/siteAdapters';
+import { customSiteAdapter } from '../src/content/siteAdapters/customSiteAdapter';
+
+interface AdapterCase {
+  adapter: string;
+  fixture: string;
+  prompts: string[];
+  /** 每个提问对应的回答容器，null 表示没有回答（answerNode 指向提问自身） */
+  answers: Array<string | null>;
+}
+
+const TEXT_PROMPTS = [
+  'How do I reverse a list in Python?',
+  '[图片] Image',
+  'Summarize our discussion so far.',
+  'Translate it into French.',
+  'Write a haiku about autumn.'
+];
+const ANSWERS = ['a1', 'a2', 'a3', null, 'a5'];
+
+const CASES: AdapterCase[] = [
+  { adapter: 'ChatGPT', fixture: 'chatgpt', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Claude', fixture: 'claude', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Gemini', fixture: 'gemini', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'DeepSeek', fixture: 'deepseek', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Grok', fixture: 'grok', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Kimi', fixture: 'kimi', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Qwen', fixture: 'qwen', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: '豆包', fixture: 'doubao', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'ChatGLM', fixture: 'chatglm', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  {
+    adapter: 'Perplexity',
+    fixture: 'perplexity',
+    // Perplexity 不能只发送附件，附件显示在提问文字上方
+    prompts: TEXT_PROMPTS.map(text => text === '[图片] Image' ? 'What does this screenshot show?' : text),
+    answers: ANSWERS
+  },
+  { adapter: 'Copilot', fixture: 'copilot', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Le Chat', fixture: 'mistral', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'HuggingChat', fixture: 'huggingchat', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: '元宝', fixture: 'yuanbao', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: '文心一言', fixture: 'ernie', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'Open WebUI', fixture: 'openwebui', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'LibreChat', fixture: 'librechat', prompts: TEXT_PROMPTS, answers: ANSWERS },
+  { adapter: 'LobeChat', fixture: 'lobechat', prompts: TEXT_PROMPTS, answers: ANSWERS }
+];
+
+function loadFixture(name: string): void {
+  document.body.innerHTML = readFileSync(resolve(__dirname, 'fixtures/siteAdapters', `${name}.html`), 'utf8');
+}
+
+function getAdapter(name: string): SiteAdapter {
+  const adapter = getAllAdapters().find(a => a.name === name);
+  if (!adapter) throw new Error(`Adapter not registered: ${name}`);
+  return adapter;
+}
+
+function getAnswerId(pair: PromptAnswerPair): string | null {
+  if (pair.answerNode === pair.promptNode) return null;
+  return pair.answerNode.closest('[data-fixture-answer]')?.getAttribute('data-fixture-answer') ?? 'unmarked';
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+it('covers every built-in adapter', () => {
+  const covered = CASES.map(c => c.adapter).sort();
+  expect(getAllAdapters().map(a => a.name).sort()).toEqual(covered);
+});
+
+describe.each(CASES)('$adapter', ({ adapter: name, fixture, prompts, answers }) => {
+  const adapter = getAdapter(name);
+
+  it('finds one pair per prompt', () => {
+    loadFixture(fixture);
+    const pairs = adapter.getPromptAnswerPairs(document);
+    expect(pairs.map(p => p.promptText)).toEqual(prompts);
+    expect(new Set(pairs.map(p => p.id)).size).toBe(pairs.length);
+  });
+
+  it('pairs each prompt with its own answer', () => {
+    loadFixture(fixture);
+    expect(adapter.getPromptAnswerPairs(document).map(getAnswerId)).toEqual(answers);
+  });
+
+  it('counts the same prompts as it pairs', () => {
+    loadFixture(fixture);
+    expect(adapter.getPromptCount?.(document)).toBe(adapter.getPromptAnswerPairs(document).length);
+  });
+
+  it('detects the streaming answer', () => {
+    loadFixture(fixture);
+    expect(adapter.isGenerating!(document)).toBe(true);
+
+    document.querySelectorAll('[data-fixture-generating]').forEach(el => el.remove());
+    expect(adapter.isGenerating!(document)).toBe(false);
+  });
+});
+
+describe('Perplexity source count', () => {
+  it('does not take an earlier label for a query without an answer', () => {
+    loadFixture('perplexity-pending');
+    // 与内容脚本一致，以 main 元素作为根节点（以 document 为根时向上查找会在 html 处停止，问题不会出现）
+    const main = document.querySelector('main')!;
+    // jsdom 在元素上执行选择器列表时按选择器分组返回结果，浏览器则按文档顺序返回，这里改为从 document 查询再限定范围
+    main.querySelectorAll = ((selector: string) =>
+      Array.from(document.querySelectorAll(selector)).filter(el => main.contains(el))) as typeof main.querySelectorAll;
+    const pairs = getAdapter('Perplexity').getPromptAnswerPairs(main);
+    expect(pairs.map(p => p.sourceCount)).toEqual([3, 5, undefined]);
+  });
+});
+
+describe('Custom Site', () => {
+  it('counts the same prompts as it pairs', () => {
+    // 只有通用类名能命中；其中一个节点包着输入框，另一个没有内容，都不应计入
+    document.body.innerHTML = `
+      <main>
+        <div class="chat-message-user">How do I reverse a list in Python?</div>
+        <div class="assistant">Use reversed().</div>
+        <div class="chat-message-user">Translate it into French.</div>
+        <div class="chat-message-user"><form><textarea></textarea></form></div>
+        <div class="chat-message-user">   </div>
+      </main>
+    `;
+    const pairs = customSiteAdapter.getPromptAnswerPairs(document);
+    expect(pairs.map(p => p.promptText)).toEqual(['How do I reverse a list in Python?', 'Translate it into French.']);
+    expect(customSiteAdapter.getPromptCount?.(document)).toBe(pairs.length);
+  });
+});